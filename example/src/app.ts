@@ -88,10 +88,11 @@ export class RAGApp {
 					this.logger.debug(`Reading file: ${file}`);
 					const content = fs.readFileSync(filePath, 'utf-8');
 					this.logger.info(`Indexing document: ${file} (Length: ${content.length})`);
-					// Add document with filename as metadata
-					// The method now returns the IDs of the added chunks, but we don't need them here.
-					const addedChunkIds = await this.rag.addDocument(content, { source: file });
-					this.logger.info(`Successfully indexed: ${file} (Chunks added: ${addedChunkIds.length})`);
+					// Upsert keyed by filename so re-running the app replaces, rather than duplicates, its chunks
+					const report = await this.rag.upsertDocument(file, content, { source: file });
+					this.logger.info(
+						`Successfully indexed: ${file} (Chunks: ${report.chunkIds.length}, embedded: ${report.added.length}, reused: ${report.kept.length}, removed: ${report.removed.length})`
+					);
 				} catch (fileError) {
 					this.logger.error(`Failed to read or index file: ${file}`, { error: fileError });
 					// Continue to next file
@@ -109,19 +110,12 @@ export class RAGApp {
 	 * Creates the augmented prompt for the LLM using retrieved context.
 	 */
 	private buildAugmentedPrompt(query: string, context: RetrievedChunk[]): string {
-		const contextHeader = "Based on the following context:";
-		const contextSeparator = "---";
 		const questionHeader = "Please answer the following question:";
 
-		const contextStrings = context.map(chunk => chunk.content);
+		// Deduplicates chunks, keeps them within the token budget and numbers the sources
+		const { text } = this.rag.buildContext(context, { maxTokens: 3000 });
 
-		return [
-			contextHeader,
-			contextSeparator,
-			...contextStrings.map(s => `${s}\n${contextSeparator}`),
-			questionHeader,
-			query,
-		].join('\n\n');
+		return [text, questionHeader, query].join('\n\n');
 	}
 
 	/**
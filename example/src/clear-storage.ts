@@ -5,7 +5,7 @@
  */
 
 import { loadConfig } from './config';
-import { RAGModule } from 'ubc-genai-toolkit-rag';
+import { RAGModule, RAGNotFoundError } from 'ubc-genai-toolkit-rag';
 import { LoggerInterface } from 'ubc-genai-toolkit-core';
 
 /**
@@ -17,7 +17,7 @@ async function clearRAGStorage() {
 		// 1. Load configuration
 		const config = loadConfig();
 		logger = config.logger; // Assign logger for potential use in catch block
-		const collectionName = config.ragConfig.qdrantConfig.collectionName; // Get collection name for logging
+		const collectionName = config.ragConfig.qdrantConfig?.collectionName; // Get collection name for logging
 
 		logger.info(`Attempting to delete RAG storage (Collection: ${collectionName})...`);
 
@@ -35,9 +35,9 @@ async function clearRAGStorage() {
 		// Log using console.error if logger failed to initialize
 		const logFn = logger ? logger.error.bind(logger) : console.error;
 
-		// Check if the error is likely due to the collection not existing
-		if (message.includes('Not found') || message.includes('doesn\'t exist') || (error as any)?.status === 404) {
-			logFn(`Storage deletion skipped: Collection likely did not exist. Error details: ${message}`);
+		// The collection was already gone
+		if (error instanceof RAGNotFoundError) {
+			logFn(`Storage deletion skipped: Collection did not exist. Error details: ${message}`);
 			// Exit gracefully if the collection was already gone
 			process.exit(0);
 		} else {
@@ -0,0 +1,138 @@
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+import { ConsoleLogger, LoggerInterface } from 'ubc-genai-toolkit-core';
+import { EmbeddingCacheEntry, MemoryEmbeddingCache, MemoryEmbeddingCacheOptions } from './memory-embedding-cache';
+
+const FILE_FORMAT_VERSION = 1;
+const DEFAULT_FLUSH_DELAY_MS = 1000;
+
+/**
+ * Options for the file-backed embedding cache.
+ */
+export interface FileEmbeddingCacheOptions extends MemoryEmbeddingCacheOptions {
+	/** Path of the JSON file holding the cache. Created on first write. */
+	path: string;
+	/** Delay before new vectors are written to the file, batching writes. Defaults to 1000 ms. */
+	flushDelayMs?: number;
+	/** Logger for load and write failures. Defaults to a console logger. */
+	logger?: LoggerInterface;
+}
+
+/**
+ * The cache file contents: `[key, vector, expiresAt]` entries, least recently used first.
+ */
+interface CacheFile {
+	version: number;
+	entries: [string, number[], number | null][];
+}
+
+/**
+ * An LRU embedding cache that persists to a JSON file, so vectors survive restarts.
+ * The file is read on first use; writes are batched and happen shortly after new vectors
+ * are added. Call `flush()` before the process exits to write any pending vectors.
+ * An unreadable file is ignored and replaced on the next write, since the cache only
+ * saves embedding calls.
+ */
+export class FileEmbeddingCache extends MemoryEmbeddingCache {
+	private path: string;
+	private flushDelayMs: number;
+	private logger: LoggerInterface;
+	private loading?: Promise<void>;
+	private flushTimer?: NodeJS.Timeout;
+	private writing: Promise<void> = Promise.resolve();
+
+	constructor(options: FileEmbeddingCacheOptions) {
+		super(options);
+		this.path = options.path;
+		this.flushDelayMs = options.flushDelayMs ?? DEFAULT_FLUSH_DELAY_MS;
+		this.logger = options.logger ?? new ConsoleLogger('FileEmbeddingCache');
+	}
+
+	async get(key: string): Promise<number[] | undefined> {
+		await this.load();
+		return super.get(key);
+	}
+
+	async set(key: string, vector: number[]): Promise<void> {
+		await this.load();
+		await super.set(key, vector);
+		this.scheduleFlush();
+	}
+
+	async clear(): Promise<void> {
+		await this.load();
+		await super.clear();
+		await this.flush();
+	}
+
+	/**
+	 * Writes the cache to its file now, replacing the file atomically.
+	 */
+	async flush(): Promise<void> {
+		if (this.flushTimer) {
+			clearTimeout(this.flushTimer);
+			this.flushTimer = undefined;
+		}
+		await this.load();
+		const now = Date.now();
+		const file: CacheFile = {
+			version: FILE_FORMAT_VERSION,
+			entries: [...this.entries]
+				.filter(([, entry]) => entry.expiresAt === undefined || entry.expiresAt > now)
+				.map(([key, entry]) => [key, entry.vector, entry.expiresAt ?? null]),
+		};
+		// Writes are serialized so an older snapshot never replaces a newer one
+		this.writing = this.writing.catch(() => undefined).then(async () => {
+			const tempPath = `${this.path}.tmp`;
+			await fs.mkdir(dirname(this.path), { recursive: true });
+			await fs.writeFile(tempPath, JSON.stringify(file), 'utf8');
+			await fs.rename(tempPath, this.path);
+		});
+		return this.writing;
+	}
+
+	private load(): Promise<void> {
+		this.loading ??= this.readFile();
+		return this.loading;
+	}
+
+	private async readFile(): Promise<void> {
+		let raw: string;
+		try {
+			raw = await fs.readFile(this.path, 'utf8');
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+				this.logger.warn(`Could not read embedding cache file '${this.path}'; starting empty.`, { error });
+			}
+			return;
+		}
+		try {
+			const file = JSON.parse(raw) as CacheFile;
+			if (file.version !== FILE_FORMAT_VERSION || !Array.isArray(file.entries)) {
+				throw new Error(`unsupported format version ${file.version}`);
+			}
+			for (const [key, vector, expiresAt] of file.entries) {
+				const entry: EmbeddingCacheEntry = { vector, expiresAt: expiresAt ?? undefined };
+				this.restore(key, entry);
+			}
+			this.logger.debug(`Loaded ${this.entries.size} cached embeddings from '${this.path}'.`);
+		} catch (error) {
+			this.logger.warn(`Ignoring invalid embedding cache file '${this.path}'.`, { error });
+			this.entries.clear();
+		}
+	}
+
+	private scheduleFlush(): void {
+		if (this.flushTimer) {
+			return;
+		}
+		this.flushTimer = setTimeout(() => {
+			this.flushTimer = undefined;
+			this.flush().catch((error) => {
+				this.logger.error(`Failed to write embedding cache file '${this.path}':`, { error });
+			});
+		}, this.flushDelayMs);
+		// Pending writes should not keep the process alive
+		this.flushTimer.unref();
+	}
+}
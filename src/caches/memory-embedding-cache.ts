@@ -0,0 +1,88 @@
+import { EmbeddingCache, EmbeddingCacheStats } from '../types';
+import { RAGConfigurationError } from '../errors';
+
+const DEFAULT_MAX_ENTRIES = 1000;
+
+/**
+ * Options for the in-memory embedding cache.
+ */
+export interface MemoryEmbeddingCacheOptions {
+	/** Maximum number of vectors kept; the least recently used are evicted first. Defaults to 1000. */
+	maxEntries?: number;
+	/** Time after which a cached vector expires, in milliseconds. Defaults to no expiry. */
+	ttlMs?: number;
+}
+
+/**
+ * A cached vector and the time it expires, if ever.
+ */
+export interface EmbeddingCacheEntry {
+	vector: number[];
+	/** Expiry time in milliseconds since the epoch. */
+	expiresAt?: number;
+}
+
+/**
+ * An in-process LRU cache of embedding vectors with optional expiry.
+ * The default embedding cache of the RAG module.
+ */
+export class MemoryEmbeddingCache implements EmbeddingCache {
+	/** Entries in least to most recently used order (Map preserves insertion order). */
+	protected entries = new Map<string, EmbeddingCacheEntry>();
+	private maxEntries: number;
+	private ttlMs?: number;
+	private hits = 0;
+	private misses = 0;
+
+	constructor(options: MemoryEmbeddingCacheOptions = {}) {
+		this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+		this.ttlMs = options.ttlMs;
+		if (!Number.isInteger(this.maxEntries) || this.maxEntries < 1) {
+			throw new RAGConfigurationError('maxEntries must be a positive integer.');
+		}
+		if (this.ttlMs !== undefined && this.ttlMs <= 0) {
+			throw new RAGConfigurationError('ttlMs must be positive.');
+		}
+	}
+
+	async get(key: string): Promise<number[] | undefined> {
+		const entry = this.entries.get(key);
+		if (!entry || (entry.expiresAt !== undefined && entry.expiresAt <= Date.now())) {
+			this.entries.delete(key);
+			this.misses++;
+			return undefined;
+		}
+		// Move to the most recently used position
+		this.entries.delete(key);
+		this.entries.set(key, entry);
+		this.hits++;
+		return entry.vector;
+	}
+
+	async set(key: string, vector: number[]): Promise<void> {
+		this.restore(key, { vector, expiresAt: this.ttlMs === undefined ? undefined : Date.now() + this.ttlMs });
+	}
+
+	async clear(): Promise<void> {
+		this.entries.clear();
+	}
+
+	stats(): EmbeddingCacheStats {
+		return { hits: this.hits, misses: this.misses, size: this.entries.size };
+	}
+
+	/**
+	 * Inserts an entry as the most recently used, keeping its expiry, and evicts the least
+	 * recently used entries beyond `maxEntries`.
+	 */
+	protected restore(key: string, entry: EmbeddingCacheEntry): void {
+		this.entries.delete(key);
+		this.entries.set(key, entry);
+		for (const oldest of this.entries.keys()) {
+			if (this.entries.size <= this.maxEntries) {
+				break;
+			}
+			this.entries.delete(oldest);
+		}
+	}
+}
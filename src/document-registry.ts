@@ -0,0 +1,139 @@
+import { DocumentSummary, FilterExpression, MetadataFilter, PointRecord, StoredDocument } from './types';
+import { normalizeFilter } from './filters';
+import { IS_PARENT_KEY, NAMESPACE_KEY, PARENT_ID_KEY } from './providers/document-chunker';
+import { joinAdjacent } from './retrieval/context-builder';
+
+/** Payload fields needed to group chunks into documents. */
+export const DOCUMENT_FIELDS = ['sourceId', 'documentHash', NAMESPACE_KEY];
+
+/** Payload fields that describe a single chunk rather than its document. */
+const CHUNK_FIELDS = ['chunkIndex', 'chunkStart', 'chunkHash', 'chunkMetadata', 'parentIndex', PARENT_ID_KEY, IS_PARENT_KEY];
+
+/**
+ * Returns the ID of the document a chunk belongs to: its `sourceId`. Documents added without
+ * an ID have none, since nothing stored tells apart two of them with the same content.
+ */
+function documentIdOf(metadata: Record<string, any>): string | undefined {
+	return metadata.sourceId === undefined || metadata.sourceId === null ? undefined : String(metadata.sourceId);
+}
+
+/**
+ * Restricts a filter to the chunks of one document, by `sourceId`.
+ */
+export function withDocument(documentId: string, filter?: MetadataFilter): FilterExpression {
+	const documentFilter: FilterExpression = { op: 'eq', key: 'sourceId', value: documentId };
+	const normalized = normalizeFilter(filter);
+	return normalized ? { op: 'and', filters: [documentFilter, normalized] } : documentFilter;
+}
+
+/**
+ * Groups listed chunks into documents, keeping same-ID documents in different namespaces apart.
+ * Chunks of documents added without an ID are skipped.
+ * @param fields Metadata fields to copy from each document's first chunk.
+ */
+export async function summarizeDocuments(records: AsyncIterable<PointRecord>, fields: string[] = []): Promise<DocumentSummary[]> {
+	const documents = new Map<string, DocumentSummary>();
+	for await (const { metadata } of records) {
+		const documentId = documentIdOf(metadata);
+		if (documentId === undefined) {
+			continue;
+		}
+		const namespace = metadata[NAMESPACE_KEY] === undefined ? undefined : String(metadata[NAMESPACE_KEY]);
+		const key = JSON.stringify([namespace ?? null, documentId]);
+		const document = documents.get(key);
+		if (document) {
+			document.chunkCount++;
+			continue;
+		}
+		const summary: DocumentSummary = {
+			documentId,
+			chunkCount: 1,
+			metadata: Object.fromEntries(fields.filter((field) => field in metadata).map((field) => [field, metadata[field]])),
+		};
+		if (namespace !== undefined) {
+			summary.namespace = namespace;
+		}
+		if (typeof metadata.documentHash === 'string') {
+			summary.documentHash = metadata.documentHash;
+		}
+		documents.set(key, summary);
+	}
+	return [...documents.values()].sort(
+		(a, b) => compareStrings(a.documentId, b.documentId) || compareStrings(a.namespace ?? '', b.namespace ?? '')
+	);
+}
+
+/**
+ * Reads the stored points of a document, parent sections included, and rebuilds it.
+ * The points must all be in one namespace.
+ */
+export async function readDocument(documentId: string, points: AsyncIterable<PointRecord>): Promise<StoredDocument | undefined> {
+	const records: PointRecord[] = [];
+	for await (const point of points) {
+		records.push(point);
+	}
+	return assembleDocument(documentId, records);
+}
+
+/**
+ * Rebuilds a document from its stored points. The text comes from the parent sections if
+ * the document was stored with hierarchical indexing, and from the chunks otherwise.
+ * @param points The document's chunks, and its parent sections if it has any.
+ */
+function assembleDocument(documentId: string, points: PointRecord[]): StoredDocument | undefined {
+	const chunks = points.filter((point) => point.metadata[IS_PARENT_KEY] !== true);
+	if (chunks.length === 0) {
+		return undefined;
+	}
+
+	const ordered = [...chunks].sort((a, b) => (a.metadata.chunkIndex ?? 0) - (b.metadata.chunkIndex ?? 0));
+	const parents = points
+		.filter((point) => point.metadata[IS_PARENT_KEY] === true)
+		.sort((a, b) => (a.metadata.parentIndex ?? 0) - (b.metadata.parentIndex ?? 0));
+	const metadata = { ...ordered[0].metadata };
+	for (const field of CHUNK_FIELDS) {
+		delete metadata[field];
+	}
+	const document: StoredDocument = {
+		documentId,
+		content: joinPieces(parents.length > 0 ? parents : ordered),
+		chunkIds: ordered.map((chunk) => chunk.id),
+		metadata,
+	};
+	const namespace = ordered[0].metadata[NAMESPACE_KEY];
+	if (namespace !== undefined) {
+		document.namespace = String(namespace);
+	}
+	if (typeof metadata.documentHash === 'string') {
+		document.documentHash = metadata.documentHash;
+	}
+	return document;
+}
+
+/**
+ * Joins the chunks or parent sections of a document, in order. A piece with a `chunkStart`
+ * offset is placed at that offset, after a newline if the chunker left out the text before
+ * it; a piece stored without one falls back to removing the overlap found between it and
+ * the text before it.
+ */
+function joinPieces(pieces: PointRecord[]): string {
+	let text = '';
+	for (const piece of pieces) {
+		const content = piece.content ?? '';
+		const start = piece.metadata.chunkStart;
+		if (typeof start === 'number') {
+			if (start > text.length) {
+				text = text ? text + '\n' + content : content;
+			} else if (start + content.length > text.length) {
+				text = text.slice(0, start) + content;
+			}
+		} else {
+			text = text ? joinAdjacent(text, content) : content;
+		}
+	}
+	return text;
+}
+
+function compareStrings(a: string, b: string): number {
+	return a < b ? -1 : a > b ? 1 : 0;
+}
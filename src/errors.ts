@@ -0,0 +1,172 @@
+import { ToolkitError } from 'ubc-genai-toolkit-core';
+
+/**
+ * Context attached to every RAG error.
+ */
+export interface RAGErrorOptions {
+	/** The provider that raised the error (e.g., 'qdrant'). */
+	provider?: string;
+	/** The operation that failed (e.g., 'upsert', 'search'). */
+	operation?: string;
+	/** The underlying error, if any. */
+	cause?: unknown;
+	/** Additional structured details. */
+	details?: Record<string, any>;
+}
+
+/**
+ * Base class for all errors raised by the RAG module.
+ * Carries the provider and operation that failed along with the underlying cause,
+ * so callers can branch on the error class instead of parsing messages.
+ */
+export class RAGError extends ToolkitError {
+	readonly provider?: string;
+	readonly operation?: string;
+	readonly cause?: unknown;
+
+	constructor(message: string, code = 500, options: RAGErrorOptions = {}) {
+		super(message, code, {
+			...options.details,
+			provider: options.provider,
+			operation: options.operation,
+		});
+		this.name = 'RAGError';
+		this.provider = options.provider;
+		this.operation = options.operation;
+		this.cause = options.cause;
+	}
+}
+
+/**
+ * The module configuration or a call's arguments are invalid.
+ */
+export class RAGConfigurationError extends RAGError {
+	constructor(message: string, options: RAGErrorOptions = {}) {
+		super(message, 400, options);
+		this.name = 'RAGConfigurationError';
+	}
+}
+
+/**
+ * Document metadata uses a reserved key or fails the configured `metadataSchema`.
+ */
+export class MetadataValidationError extends RAGConfigurationError {
+	constructor(message: string, options: RAGErrorOptions = {}) {
+		super(message, options);
+		this.name = 'MetadataValidationError';
+	}
+}
+
+/**
+ * The vector store could not be reached, timed out, or is temporarily unavailable.
+ */
+export class RAGConnectionError extends RAGError {
+	constructor(message: string, options: RAGErrorOptions = {}) {
+		super(message, 503, options);
+		this.name = 'RAGConnectionError';
+	}
+}
+
+/**
+ * The requested collection or resource does not exist.
+ */
+export class RAGNotFoundError extends RAGError {
+	constructor(message: string, options: RAGErrorOptions = {}) {
+		super(message, 404, options);
+		this.name = 'RAGNotFoundError';
+	}
+}
+
+/**
+ * A vector's length does not match the dimension the store expects.
+ */
+export class VectorDimensionMismatchError extends RAGError {
+	readonly expected: number;
+	readonly actual: number;
+
+	constructor(expected: number, actual: number, options: RAGErrorOptions = {}) {
+		super(`Vector dimension mismatch: expected ${expected}, got ${actual}.`, 400, {
+			...options,
+			details: { ...options.details, expected, actual },
+		});
+		this.name = 'VectorDimensionMismatchError';
+		this.expected = expected;
+		this.actual = actual;
+	}
+}
+
+/**
+ * The embeddings provider failed to produce vectors.
+ */
+export class EmbeddingError extends RAGError {
+	constructor(message: string, options: RAGErrorOptions = {}) {
+		super(message, 502, options);
+		this.name = 'EmbeddingError';
+	}
+}
+
+/**
+ * Any other failure reported by the vector store.
+ */
+export class VectorStoreError extends RAGError {
+	constructor(message: string, options: RAGErrorOptions = {}) {
+		super(message, 500, options);
+		this.name = 'VectorStoreError';
+	}
+}
+
+const CONNECTION_ERROR_CODES = new Set(['ECONNREFUSED', 'ECONNRESET', 'ETIMEDOUT', 'EAI_AGAIN', 'ENOTFOUND', 'EPIPE']);
+
+/**
+ * Returns the HTTP status carried by a client error, if any.
+ */
+function statusOf(error: unknown): number | undefined {
+	const err = error as Record<string, any> | undefined;
+	const status = err?.status ?? err?.statusCode ?? err?.response?.status;
+	return typeof status === 'number' ? status : undefined;
+}
+
+/**
+ * Whether a vector store client error means the target does not exist.
+ */
+export function isNotFoundError(error: unknown): boolean {
+	if (error instanceof RAGNotFoundError || statusOf(error) === 404) {
+		return true;
+	}
+	const message = error instanceof Error ? error.message : String(error);
+	return /not found|doesn't exist/i.test(message);
+}
+
+function isConnectionError(error: unknown): boolean {
+	const status = statusOf(error);
+	if (status !== undefined) {
+		return status === 408 || status === 429 || status === 502 || status === 503 || status === 504;
+	}
+	const err = error as Record<string, any> | undefined;
+	const code = err?.code ?? err?.cause?.code;
+	return (
+		(typeof code === 'string' && CONNECTION_ERROR_CODES.has(code)) ||
+		(typeof err?.name === 'string' && /Timeout|ResourceExhausted|AbortError/.test(err.name)) ||
+		err?.message === 'fetch failed'
+	);
+}
+
+/**
+ * Converts an error thrown by a vector store client into the matching RAG error class.
+ * RAG errors pass through unchanged.
+ * @param label Human-readable provider name used in the message (e.g., 'Qdrant').
+ */
+export function toProviderError(error: unknown, provider: string, label: string, operation: string): RAGError {
+	if (error instanceof RAGError) {
+		return error;
+	}
+	const message = `${label} ${operation} failed: ${error instanceof Error ? error.message : String(error)}`;
+	const options = { provider, operation, cause: error };
+	if (isNotFoundError(error)) {
+		return new RAGNotFoundError(message, options);
+	}
+	if (isConnectionError(error)) {
+		return new RAGConnectionError(message, options);
+	}
+	return new VectorStoreError(message, options);
+}
@@ -0,0 +1,134 @@
+import { FilterExpression, FilterValue, MetadataFilter } from './types';
+import { RAGConfigurationError } from './errors';
+
+const FILTER_OPS = new Set(['and', 'or', 'not', 'eq', 'in', 'range', 'exists']);
+
+/**
+ * Returns true if the filter is a `FilterExpression` rather than the plain object shorthand.
+ */
+export function isFilterExpression(filter: MetadataFilter): filter is FilterExpression {
+	return typeof filter.op === 'string' && FILTER_OPS.has(filter.op);
+}
+
+/**
+ * Converts a metadata filter into a validated `FilterExpression`.
+ * The plain object shorthand becomes an AND of `eq` conditions.
+ * Returns undefined for a missing or empty filter, meaning "match everything".
+ */
+export function normalizeFilter(filter?: MetadataFilter): FilterExpression | undefined {
+	if (!filter) {
+		return undefined;
+	}
+	if (isFilterExpression(filter)) {
+		validateExpression(filter);
+		return filter;
+	}
+	const entries = Object.entries(filter);
+	if (entries.length === 0) {
+		return undefined;
+	}
+	if (entries.length === 1) {
+		const [key, value] = entries[0];
+		return { op: 'eq', key, value };
+	}
+	return {
+		op: 'and',
+		filters: entries.map(([key, value]) => ({ op: 'eq', key, value })),
+	};
+}
+
+function validateExpression(expr: FilterExpression): void {
+	if (!expr || typeof expr !== 'object' || Array.isArray(expr)) {
+		throw new RAGConfigurationError('Each sub-filter must be a filter expression object.');
+	}
+	switch (expr.op) {
+		case 'and':
+		case 'or':
+			if (!Array.isArray(expr.filters) || expr.filters.length === 0) {
+				throw new RAGConfigurationError(`Filter '${expr.op}' requires at least one sub-filter.`);
+			}
+			expr.filters.forEach(validateExpression);
+			break;
+		case 'not':
+			if (expr.filter === undefined || expr.filter === null) {
+				throw new RAGConfigurationError(`Filter 'not' requires a sub-filter.`);
+			}
+			validateExpression(expr.filter);
+			break;
+		case 'in':
+			if (!Array.isArray(expr.values)) {
+				throw new RAGConfigurationError(`Filter 'in' on '${expr.key}' requires an array of values.`);
+			}
+			break;
+		case 'range':
+			if (expr.gt === undefined && expr.gte === undefined && expr.lt === undefined && expr.lte === undefined) {
+				throw new RAGConfigurationError(`Filter 'range' on '${expr.key}' requires at least one bound.`);
+			}
+			break;
+		case 'eq':
+		case 'exists':
+			break;
+		default:
+			throw new RAGConfigurationError(`Unknown filter operator '${(expr as { op?: unknown }).op}'.`);
+	}
+}
+
+/**
+ * Resolves a possibly dotted key (e.g., 'chunkMetadata.page') against a payload.
+ * Arrays met along the path are flattened, so the result lists every value found.
+ */
+export function resolvePayloadValues(payload: Record<string, any>, key: string): any[] {
+	let current: any[] = [payload];
+	for (const part of key.split('.')) {
+		const next: any[] = [];
+		for (const value of current) {
+			if (value === null || typeof value !== 'object') continue;
+			const child = value[part];
+			if (child === undefined) continue;
+			if (Array.isArray(child)) {
+				next.push(...child);
+			} else {
+				next.push(child);
+			}
+		}
+		current = next;
+	}
+	return current;
+}
+
+/**
+ * Evaluates a metadata filter against a payload in process.
+ * Used by providers without native filtering; semantics mirror the Qdrant translation.
+ */
+export function matchesFilter(payload: Record<string, any>, filter?: MetadataFilter): boolean {
+	const expr = normalizeFilter(filter);
+	return expr === undefined || evaluate(payload, expr);
+}
+
+function evaluate(payload: Record<string, any>, expr: FilterExpression): boolean {
+	switch (expr.op) {
+		case 'and':
+			return expr.filters.every((f) => evaluate(payload, f));
+		case 'or':
+			return expr.filters.some((f) => evaluate(payload, f));
+		case 'not':
+			return !evaluate(payload, expr.filter);
+		case 'eq':
+			return resolvePayloadValues(payload, expr.key).some((v) => v === expr.value);
+		case 'in':
+			return resolvePayloadValues(payload, expr.key).some((v) => expr.values.includes(v as FilterValue));
+		case 'range':
+			return resolvePayloadValues(payload, expr.key).some(
+				(v) =>
+					typeof v === 'number' &&
+					(expr.gt === undefined || v > expr.gt) &&
+					(expr.gte === undefined || v >= expr.gte) &&
+					(expr.lt === undefined || v < expr.lt) &&
+					(expr.lte === undefined || v <= expr.lte)
+			);
+		case 'exists':
+			return resolvePayloadValues(payload, expr.key).some((v) => v !== null);
+		default:
+			throw new RAGConfigurationError(`Unsupported filter operation: ${(expr as { op: string }).op}`);
+	}
+}
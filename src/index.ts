@@ -1,2 +1,21 @@
 export { RAGModule } from './rag-module';
+export { NamespacedRAGModule } from './namespaced-rag-module';
+export { LexicalOverlapReranker, LexicalOverlapRerankerOptions } from './rerankers/lexical-overlap-reranker';
+export { CrossEncoderReranker, RelevanceScoringFunction } from './rerankers/cross-encoder-reranker';
+export { LLMReranker, LLMRerankerOptions, CompletionFunction } from './rerankers/llm-reranker';
+export {
+	RAGError,
+	RAGErrorOptions,
+	RAGConfigurationError,
+	MetadataValidationError,
+	RAGConnectionError,
+	RAGNotFoundError,
+	VectorDimensionMismatchError,
+	EmbeddingError,
+	VectorStoreError,
+} from './errors';
+export { MemoryEmbeddingCache, MemoryEmbeddingCacheOptions } from './caches/memory-embedding-cache';
+export { FileEmbeddingCache, FileEmbeddingCacheOptions } from './caches/file-embedding-cache';
+export { isRetryableError } from './retry';
+export { buildContext } from './retrieval/context-builder';
 export * from './types'; // Export all types as well
\ No newline at end of file
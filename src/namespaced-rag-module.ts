@@ -0,0 +1,149 @@
+import type { RAGModule } from './rag-module';
+import {
+	RAGModuleInterface,
+	RetrievedChunk,
+	RetrievalOptions,
+	MetadataFilter,
+	FilterExpression,
+	DocumentUpsertReport,
+	DocumentInput,
+	BatchIngestOptions,
+	BatchIngestResult,
+	ContextBuildOptions,
+	BuiltContext,
+	PointListOptions,
+	PointPage,
+	PointRecord,
+	DocumentListOptions,
+	DocumentSummary,
+	StoredDocument,
+} from './types';
+import { normalizeFilter } from './filters';
+import { RAGConfigurationError } from './errors';
+import { readDocument, withDocument } from './document-registry';
+import { NAMESPACE_KEY } from './providers/document-chunker';
+
+/**
+ * Methods that act on the whole collection or module rather than on documents, so they are
+ * not available on a namespaced view.
+ */
+type CollectionWideMethods =
+	| 'migrateEmbeddings'
+	| 'listPayloadIndexes'
+	| 'createPayloadIndex'
+	| 'getEmbeddingCacheStats'
+	| 'exportStorage'
+	| 'importStorage'
+	| 'getStats'
+	| 'healthCheck'
+	| 'close';
+
+/**
+ * Restricts a filter to chunks in the given namespace.
+ */
+function scopeFilter(namespace: string, filter?: MetadataFilter): FilterExpression {
+	const namespaceFilter: FilterExpression = { op: 'eq', key: NAMESPACE_KEY, value: namespace };
+	const normalized = normalizeFilter(filter);
+	return normalized ? { op: 'and', filters: [namespaceFilter, normalized] } : namespaceFilter;
+}
+
+/**
+ * A view of a RAGModule scoped to one tenant namespace, created with `RAGModule.forNamespace`.
+ * Every chunk added through it is tagged with the namespace, and every retrieval, lookup
+ * and deletion is restricted to chunks in the namespace, on top of any filter passed in.
+ * Documents upserted with the same ID in different namespaces are independent.
+ */
+export class NamespacedRAGModule<TMetadata extends Record<string, any> = Record<string, any>> implements Omit<RAGModuleInterface<TMetadata>, CollectionWideMethods> {
+	readonly namespace: string;
+	private module: RAGModule<TMetadata>;
+
+	constructor(module: RAGModule<TMetadata>, namespace: string) {
+		this.module = module;
+		this.namespace = namespace;
+	}
+
+	/**
+	 * Adds the namespace to the metadata. The module passes it through its metadata schema untouched.
+	 */
+	private tag(metadata?: TMetadata): TMetadata {
+		return { ...metadata, [NAMESPACE_KEY]: this.namespace } as Record<string, any> as TMetadata;
+	}
+
+	async addDocument(content: string, metadata?: TMetadata): Promise<string[]> {
+		return this.module.addDocument(content, this.tag(metadata));
+	}
+
+	async upsertDocument(documentId: string, content: string, metadata?: TMetadata): Promise<DocumentUpsertReport> {
+		return this.module.upsertDocument(documentId, content, this.tag(metadata));
+	}
+
+	async addDocuments(documents: DocumentInput<TMetadata>[], options?: BatchIngestOptions): Promise<BatchIngestResult> {
+		return this.module.addDocuments(
+			documents.map((doc) => ({ ...doc, metadata: this.tag(doc.metadata) })),
+			options
+		);
+	}
+
+	async retrieveContext(queryText: string, options?: RetrievalOptions): Promise<RetrievedChunk<TMetadata>[]> {
+		return this.module.retrieveContext(queryText, { ...options, filter: scopeFilter(this.namespace, options?.filter) });
+	}
+
+	buildContext(chunks: RetrievedChunk[], options?: ContextBuildOptions): BuiltContext {
+		return this.module.buildContext(chunks, options);
+	}
+
+	/**
+	 * Deletes chunks by ID. IDs of chunks in other namespaces are ignored.
+	 */
+	async deleteDocumentsByIds(ids: string[], filter?: MetadataFilter): Promise<void> {
+		return this.module.deleteDocumentsByIds(ids, scopeFilter(this.namespace, filter));
+	}
+
+	/**
+	 * Deletes chunks in the namespace that match the filter.
+	 * @throws {RAGConfigurationError} If the filter is empty; use `deleteStorage` to delete the whole namespace.
+	 */
+	async deleteDocumentsByMetadata(filter: MetadataFilter): Promise<void> {
+		if (!normalizeFilter(filter)) {
+			throw new RAGConfigurationError(
+				`An empty filter would delete every chunk in namespace '${this.namespace}'; use deleteStorage to do that.`
+			);
+		}
+		return this.module.deleteDocumentsByMetadata(scopeFilter(this.namespace, filter));
+	}
+
+	async getDocumentsByMetadata(filter: MetadataFilter): Promise<any[]> {
+		return this.module.getDocumentsByMetadata(scopeFilter(this.namespace, filter));
+	}
+
+	async listPoints(options?: PointListOptions): Promise<PointPage> {
+		return this.module.listPoints({ ...options, filter: scopeFilter(this.namespace, options?.filter) });
+	}
+
+	iteratePoints(options?: PointListOptions): AsyncIterableIterator<PointRecord> {
+		return this.module.iteratePoints({ ...options, filter: scopeFilter(this.namespace, options?.filter) });
+	}
+
+	async listDocuments(options?: DocumentListOptions): Promise<DocumentSummary[]> {
+		return this.module.listDocuments({ ...options, filter: scopeFilter(this.namespace, options?.filter) });
+	}
+
+	async getDocument(documentId: string, filter?: MetadataFilter): Promise<StoredDocument | undefined> {
+		return readDocument(documentId, this.iteratePoints({ filter: withDocument(documentId, filter) }));
+	}
+
+	async countChunks(filter?: MetadataFilter): Promise<number> {
+		return this.module.countChunks(scopeFilter(this.namespace, filter));
+	}
+
+	async documentExists(documentId: string, filter?: MetadataFilter): Promise<boolean> {
+		return (await this.countChunks(withDocument(documentId, filter))) > 0;
+	}
+
+	/**
+	 * Deletes every chunk in the namespace. The underlying collection and other namespaces are kept.
+	 */
+	async deleteStorage(): Promise<void> {
+		return this.module.deleteDocumentsByMetadata(scopeFilter(this.namespace));
+	}
+}
@@ -0,0 +1,455 @@
+import { EmbeddingsModule } from 'ubc-genai-toolkit-embeddings';
+import { LoggerInterface } from 'ubc-genai-toolkit-core';
+import { ChunkingModule } from 'ubc-genai-toolkit-chunking';
+import {
+	RAGProviderInterface,
+	RetrievedChunk,
+	RetrievalOptions,
+	MetadataFilter,
+	DocumentUpsertReport,
+	DocumentInput,
+	DocumentIngestResult,
+	DocumentIngestFailure,
+	BatchIngestOptions,
+	BatchIngestResult,
+	RetryPolicy,
+	EmbeddingCache,
+	StoredPoint,
+	PointListOptions,
+	PointPage,
+	ProviderStats,
+} from '../types';
+import {
+	NAMESPACE_KEY,
+	PARENT_ID_KEY,
+	PreparedChunk,
+	chunkDocument,
+	chunkDocumentHierarchically,
+	chunkIdFor,
+	hashContent,
+	parentIdFor,
+} from './document-chunker';
+import { meanVector } from './vector-math';
+import { EmbeddingBatcher } from './embedding-batcher';
+import { withRetry } from '../retry';
+import { EmbeddingError, RAGConfigurationError } from '../errors';
+import { v4 as uuidv4 } from 'uuid';
+
+const DEFAULT_CONCURRENCY = 4;
+const DEFAULT_EMBED_BATCH_SIZE = 64;
+
+/**
+ * A point ready to be written to the vector store. Points the module writes have string IDs.
+ */
+export interface VectorPoint extends StoredPoint {
+	id: string;
+}
+
+/**
+ * A document that has been chunked and is waiting for embeddings.
+ */
+interface PreparedDocument {
+	index: number;
+	documentId?: string;
+	namespace?: string;
+	documentHash: string;
+	chunks: PreparedChunk[];
+	/** Parent sections, when hierarchical indexing is enabled. */
+	parents: PreparedChunk[];
+}
+
+type IngestOutcome = DocumentIngestResult | DocumentIngestFailure;
+
+function isFailure(outcome: IngestOutcome): outcome is DocumentIngestFailure {
+	return 'error' in outcome;
+}
+
+function toError(error: unknown): Error {
+	return error instanceof Error ? error : new Error(String(error));
+}
+
+/**
+ * Keys a cached embedding by model identity and text hash, so vectors are never shared between models.
+ */
+function embeddingCacheKey(embeddingModel: string | undefined, text: string): string {
+	return `${embeddingModel ?? ''}:${hashContent(text)}`;
+}
+
+/**
+ * Base class for RAG providers.
+ * Implements document ingestion (chunking, reuse of stored embeddings by content hash,
+ * batched embedding, upserts and stale chunk removal) once on top of a few storage
+ * primitives, so every vector store ingests documents the same way.
+ */
+export abstract class BaseRAGProvider implements RAGProviderInterface {
+	protected embeddings: EmbeddingsModule;
+	protected logger: LoggerInterface;
+	protected isDebug: boolean;
+	protected chunkingModule?: ChunkingModule;
+	protected customChunker?: (content: string) => string[];
+	protected retryPolicy: RetryPolicy;
+	/** Identity of the embedding model, stamped on every stored chunk as `embeddingModel`. */
+	protected embeddingModel?: string;
+	/** Splits documents into parent sections for hierarchical indexing, if enabled. */
+	protected parentChunker?: (content: string) => string[];
+	/** Cache consulted before texts are embedded, if enabled. */
+	protected embeddingCache?: EmbeddingCache;
+
+	constructor(
+		embeddingsModule: EmbeddingsModule,
+		logger: LoggerInterface,
+		debug = false,
+		chunkingModule?: ChunkingModule,
+		customChunker?: (content: string) => string[],
+		retryPolicy: RetryPolicy = {},
+		embeddingModel?: string,
+		parentChunker?: (content: string) => string[],
+		embeddingCache?: EmbeddingCache
+	) {
+		this.embeddings = embeddingsModule;
+		this.logger = logger;
+		this.isDebug = debug;
+		this.chunkingModule = chunkingModule;
+		this.customChunker = customChunker;
+		this.retryPolicy = retryPolicy;
+		this.embeddingModel = embeddingModel;
+		this.parentChunker = parentChunker;
+		this.embeddingCache = embeddingCache;
+	}
+
+	abstract initialize(): Promise<void>;
+	abstract retrieveContext(queryText: string, options?: RetrievalOptions): Promise<RetrievedChunk[]>;
+	abstract keywordSearch(queryText: string, options?: RetrievalOptions): Promise<RetrievedChunk[]>;
+	abstract deleteDocumentsByIds(ids: string[], filter?: MetadataFilter): Promise<void>;
+	abstract deleteDocumentsByMetadata(filter: MetadataFilter): Promise<void>;
+	abstract getDocumentsByMetadata(filter: MetadataFilter): Promise<any[]>;
+	abstract deleteStorage(): Promise<void>;
+	abstract exportPoints(batchSize: number): AsyncIterable<StoredPoint[]>;
+	abstract listPoints(options: PointListOptions): Promise<PointPage>;
+	abstract countPoints(filter?: MetadataFilter): Promise<number>;
+	abstract getStats(): Promise<ProviderStats>;
+	abstract ping(): Promise<void>;
+
+	/**
+	 * Writes points to the store, replacing any existing points with the same IDs.
+	 */
+	protected abstract storePoints(points: VectorPoint[]): Promise<void>;
+
+	/**
+	 * Looks up stored vectors for the given chunk hashes anywhere in the store.
+	 * When an embedding model is configured, only vectors stamped with the same
+	 * `embeddingModel` may be returned, since vectors from another model are not comparable.
+	 * @returns A map from chunk hash to a stored vector with that hash.
+	 */
+	protected abstract findVectorsByChunkHash(hashes: string[]): Promise<Map<string, number[]>>;
+
+	/**
+	 * Lists the IDs of all chunks whose `sourceId` equals the document ID, within the given
+	 * namespace, or among chunks without a namespace if none is given.
+	 */
+	protected abstract listDocumentChunkIds(documentId: string, namespace?: string): Promise<string[]>;
+
+	/**
+	 * Writes points from a snapshot. Integer IDs are stored as strings; stores that support
+	 * them natively override this to keep them.
+	 */
+	async importPoints(points: StoredPoint[]): Promise<void> {
+		if (points.length > 0) {
+			await this.storePoints(points.map((point) => ({ ...point, id: String(point.id) })));
+		}
+	}
+
+	/**
+	 * Runs a single vector store or embeddings call under the configured retry policy.
+	 * Wrap individual calls only, never whole operations, so a retry cannot repeat work
+	 * that already succeeded.
+	 * @param operation A short name for the call, used in log messages.
+	 */
+	protected withRetry<T>(operation: string, fn: () => Promise<T>): Promise<T> {
+		return withRetry(fn, this.retryPolicy, this.logger, operation);
+	}
+
+	/**
+	 * Embeds texts, taking vectors from the embedding cache where possible and calling the
+	 * embeddings module, with retries, for the rest. Cache failures only skip the cache.
+	 */
+	protected async embed(texts: string | string[]): Promise<number[][]> {
+		const cache = this.embeddingCache;
+		if (!cache) {
+			return this.embedUncached(texts);
+		}
+		const list = Array.isArray(texts) ? texts : [texts];
+		const keys = list.map((text) => embeddingCacheKey(this.embeddingModel, text));
+		let vectors: (number[] | undefined)[];
+		try {
+			vectors = await Promise.all(keys.map((key) => cache.get(key)));
+		} catch (error) {
+			this.logger.warn('Embedding cache lookup failed; embedding without the cache.', { error });
+			return this.embedUncached(texts);
+		}
+
+		const missing = list.flatMap((_, i) => (vectors[i] ? [] : [i]));
+		this.logger.debug(`Embedding cache: ${list.length - missing.length} hits, ${missing.length} misses.`);
+		if (missing.length > 0) {
+			const embedded = await this.embedUncached(missing.map((i) => list[i]));
+			missing.forEach((i, j) => {
+				vectors[i] = embedded[j];
+			});
+			try {
+				await Promise.all(missing.filter((i) => vectors[i]).map((i) => cache.set(keys[i], vectors[i]!)));
+			} catch (error) {
+				this.logger.warn('Failed to store embeddings in the cache.', { error });
+			}
+		}
+		return vectors as number[][];
+	}
+
+	/**
+	 * Embeds texts with the embeddings module, retrying transient failures.
+	 */
+	private async embedUncached(texts: string | string[]): Promise<number[][]> {
+		try {
+			return await this.withRetry('Embedding', () => this.embeddings.embed(texts));
+		} catch (error) {
+			throw new EmbeddingError(`Embedding failed: ${error instanceof Error ? error.message : String(error)}`, {
+				operation: 'embed',
+				cause: error,
+			});
+		}
+	}
+
+	async addDocument(content: string, metadata: Record<string, any> = {}): Promise<string[]> {
+		this.logger.debug(`Adding document with metadata:`, metadata);
+		const result = await this.ingestDocument({ content, metadata });
+		return result.chunkIds;
+	}
+
+	async upsertDocument(documentId: string, content: string, metadata: Record<string, any> = {}): Promise<DocumentUpsertReport> {
+		this.logger.debug(`Upserting document '${documentId}' with metadata:`, metadata);
+		const { index, ...report } = await this.ingestDocument({ documentId, content, metadata });
+		return { ...report, documentId };
+	}
+
+	async addDocuments(documents: DocumentInput[], options: BatchIngestOptions = {}): Promise<BatchIngestResult> {
+		const concurrency = options.concurrency ?? DEFAULT_CONCURRENCY;
+		const embedBatchSize = options.embedBatchSize ?? DEFAULT_EMBED_BATCH_SIZE;
+		if (!Number.isInteger(concurrency) || concurrency < 1 || !Number.isInteger(embedBatchSize) || embedBatchSize < 1) {
+			throw new RAGConfigurationError('concurrency and embedBatchSize must be positive integers.');
+		}
+		this.logger.info(`Ingesting ${documents.length} documents (concurrency ${concurrency}, embed batch size ${embedBatchSize})...`);
+
+		// A pool of `concurrency` workers, each taking the next document as soon as its last one finishes
+		const batcher = this.createBatcher(embedBatchSize, concurrency);
+		const result: BatchIngestResult = { succeeded: [], failed: [] };
+		let next = 0;
+		let completed = 0;
+		const worker = async (): Promise<void> => {
+			while (next < documents.length) {
+				const index = next++;
+				const outcome = await this.ingestOne(documents[index], index, batcher);
+				completed++;
+				if (isFailure(outcome)) {
+					this.logger.error(`Failed to ingest document ${outcome.index}${outcome.documentId ? ` ('${outcome.documentId}')` : ''}:`, { error: outcome.error });
+					result.failed.push(outcome);
+					options.onProgress?.({ completed, total: documents.length, failure: outcome });
+				} else {
+					result.succeeded.push(outcome);
+					options.onProgress?.({ completed, total: documents.length, result: outcome });
+				}
+			}
+		};
+		await Promise.all(Array.from({ length: Math.min(concurrency, documents.length) }, worker));
+
+		result.succeeded.sort((a, b) => a.index - b.index);
+		result.failed.sort((a, b) => a.index - b.index);
+		this.logger.info(`Batch ingestion finished: ${result.succeeded.length} succeeded, ${result.failed.length} failed.`);
+		return result;
+	}
+
+	/**
+	 * Ingests a single document, throwing if it fails.
+	 */
+	private async ingestDocument(doc: DocumentInput): Promise<DocumentIngestResult> {
+		const outcome = await this.ingestOne(doc, 0, this.createBatcher(DEFAULT_EMBED_BATCH_SIZE, DEFAULT_CONCURRENCY));
+		if (isFailure(outcome)) {
+			throw outcome.error;
+		}
+		return outcome;
+	}
+
+	/**
+	 * Creates a batcher that embeds chunk texts through the embedding cache, with retries.
+	 */
+	private createBatcher(batchSize: number, maxInFlight: number): EmbeddingBatcher {
+		return new EmbeddingBatcher(
+			async (texts) => {
+				const vectors = await this.embed(texts);
+				this.logger.info(`Successfully generated embeddings for ${vectors.length}/${texts.length} chunks.`);
+				return vectors;
+			},
+			batchSize,
+			maxInFlight
+		);
+	}
+
+	/**
+	 * Ingests one document: chunks it, reuses stored vectors for unchanged chunk text, embeds
+	 * the rest through the shared batcher, then stores it. Failures are returned, not thrown.
+	 */
+	private async ingestOne(doc: DocumentInput, index: number, batcher: EmbeddingBatcher): Promise<IngestOutcome> {
+		try {
+			// 1. Chunk the document
+			const prepared = await this.prepareDocument(doc, index);
+			const hashes = [...new Set(prepared.chunks.map((chunk) => chunk.payload.chunkHash as string))];
+
+			// 2. Reuse stored vectors for unchanged chunk text
+			const reusable = await this.findVectorsByChunkHash(hashes);
+
+			// 3. Embed each remaining distinct text once, in batches shared with other documents
+			const pending = new Map<string, string>(); // chunk hash -> text
+			for (const chunk of prepared.chunks) {
+				const hash = chunk.payload.chunkHash as string;
+				if (!reusable.has(hash)) pending.set(hash, chunk.text);
+			}
+			if (hashes.length > 0) {
+				this.logger.debug(`Embedding ${pending.size} chunk texts (${hashes.length - pending.size} reused)...`);
+			}
+			let embedded: Map<string, number[]>;
+			try {
+				embedded = await batcher.embed(pending);
+			} catch (error) {
+				this.logger.error('Error generating embeddings for batch:', { error });
+				throw error;
+			}
+
+			// 4. Store the document
+			return await this.storeDocument(prepared, reusable, embedded);
+		} catch (error) {
+			return { index, documentId: doc.documentId, error: toError(error) };
+		}
+	}
+
+	/**
+	 * Splits a document into chunks using the configured chunking strategy, first into
+	 * parent sections if hierarchical indexing is enabled.
+	 * Upserted documents have their ID stored as `sourceId` on every chunk.
+	 */
+	private async prepareDocument(doc: DocumentInput, index: number): Promise<PreparedDocument> {
+		const metadata = doc.documentId ? { ...doc.metadata, sourceId: doc.documentId } : doc.metadata ?? {};
+		const options = {
+			logger: this.logger,
+			chunkingModule: this.chunkingModule,
+			customChunker: this.customChunker,
+		};
+		const { chunks, parents } = this.parentChunker
+			? await chunkDocumentHierarchically(doc.content, metadata, this.parentChunker, options)
+			: { chunks: await chunkDocument(doc.content, metadata, options), parents: [] };
+		this.logger.debug(`Document split into ${chunks.length} chunks.`);
+		const namespace = doc.metadata?.[NAMESPACE_KEY];
+		return {
+			index,
+			documentId: doc.documentId,
+			namespace: namespace === undefined ? undefined : String(namespace),
+			documentHash: hashContent(doc.content),
+			chunks,
+			parents,
+		};
+	}
+
+	/**
+	 * Writes a prepared document's chunks and, for upserts, removes chunks left over
+	 * from the previous version. New chunks are written first, so readers never see
+	 * an upserted document missing.
+	 */
+	private async storeDocument(
+		doc: PreparedDocument,
+		reusable: Map<string, number[]>,
+		embedded: Map<string, number[]>
+	): Promise<DocumentIngestResult> {
+		const { documentId, namespace } = doc;
+		const result: DocumentIngestResult = {
+			index: doc.index,
+			documentId,
+			documentHash: doc.documentHash,
+			chunkIds: [],
+			parentIds: [],
+			added: [],
+			kept: [],
+			removed: [],
+		};
+
+		// 1. Create points, filtering out any chunks that failed to embed.
+		// Upserted documents get deterministic IDs so a new version overwrites the old one in place.
+		// Parent sections get their IDs first so child chunks can reference them.
+		const parentIds = doc.parents.map((_, j) => (documentId ? parentIdFor(documentId, j, namespace) : uuidv4()));
+		const points: VectorPoint[] = [];
+		doc.chunks.forEach((chunk, i) => {
+			const reused = reusable.get(chunk.payload.chunkHash);
+			const vector = reused ?? embedded.get(chunk.payload.chunkHash);
+			if (!vector) {
+				this.logger.warn(`Skipping chunk ${i} as it failed to produce an embedding.`);
+				return;
+			}
+			const id = documentId ? chunkIdFor(documentId, i, namespace) : uuidv4();
+			const parentId = parentIds[chunk.payload.parentIndex];
+			const payload = this.stamp(parentId ? { ...chunk.payload, [PARENT_ID_KEY]: parentId } : chunk.payload);
+			points.push({ id, vector, payload });
+			result.chunkIds.push(id);
+			(reused ? result.kept : result.added).push(id);
+		});
+
+		if (doc.chunks.length === 0) {
+			this.logger.warn('Document content resulted in zero chunks. Nothing to add.');
+		} else if (points.length === 0) {
+			if (documentId) {
+				// Keep the previous version rather than leaving the document empty
+				throw new EmbeddingError(`Failed to embed any chunks of document '${documentId}'.`, { operation: 'upsert' });
+			}
+			this.logger.warn('All chunks failed to produce embeddings. Nothing to upsert.');
+			return result;
+		}
+
+		// 2. Store each parent section once, with the mean of its child vectors so it is a valid point.
+		// Parents are excluded from search; only their children are matched.
+		const childPoints = [...points];
+		doc.parents.forEach((parent, j) => {
+			const children = childPoints.filter((point) => point.payload.parentIndex === j);
+			if (children.length === 0) {
+				return;
+			}
+			const id = parentIds[j];
+			points.push({
+				id,
+				vector: meanVector(children.map((point) => point.vector)),
+				payload: this.stamp({ ...parent.payload, [PARENT_ID_KEY]: id }),
+			});
+			result.parentIds.push(id);
+		});
+
+		// 3. Write the points
+		if (points.length > 0) {
+			await this.storePoints(points);
+		}
+
+		// 4. Remove chunks left over from the previous version (e.g., it had more chunks)
+		if (documentId) {
+			const current = new Set([...result.chunkIds, ...result.parentIds]);
+			result.removed = (await this.listDocumentChunkIds(documentId, namespace)).filter((id) => !current.has(id));
+			if (result.removed.length > 0) {
+				await this.deleteDocumentsByIds(result.removed);
+			}
+			this.logger.info(
+				`Document '${documentId}' upserted: ${result.added.length} added, ${result.kept.length} kept, ${result.removed.length} removed.`
+			);
+		}
+
+		return result;
+	}
+
+	/**
+	 * Stamps a payload with the embedding model identity, if one is configured.
+	 */
+	private stamp(payload: Record<string, any>): Record<string, any> {
+		return this.embeddingModel ? { ...payload, embeddingModel: this.embeddingModel } : payload;
+	}
+}
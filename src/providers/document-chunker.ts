@@ -0,0 +1,292 @@
+import { LoggerInterface } from 'ubc-genai-toolkit-core';
+import { ChunkingModule, Chunk } from 'ubc-genai-toolkit-chunking';
+import { createHash } from 'crypto';
+import { v4 as uuidv4, v5 as uuidv5 } from 'uuid';
+import { PointRecord, RetrievedChunk } from '../types';
+
+/**
+ * Namespace for deriving deterministic chunk IDs (UUID v5) from document IDs.
+ * Changing it would change every derived ID, so it must stay fixed.
+ */
+const CHUNK_ID_NAMESPACE = '6f1c3c2e-52a4-4d0c-9b8e-3a4f0d7e2b91';
+
+/**
+ * Payload key holding the tenant namespace of a chunk. Chunks added outside any namespace omit it.
+ */
+export const NAMESPACE_KEY = 'namespace';
+
+/**
+ * Payload key holding the ID of a parent section. Set on the parent itself and on each of
+ * its child chunks when hierarchical indexing is enabled.
+ */
+export const PARENT_ID_KEY = 'parentId';
+
+/**
+ * Payload key marking a stored parent section, as opposed to a searchable child chunk.
+ */
+export const IS_PARENT_KEY = 'isParent';
+
+/**
+ * Payload keys the module writes on every chunk, which document metadata may not use.
+ * `sourceId` and `namespace` are also written by the module but may be set by callers.
+ */
+export const RESERVED_METADATA_KEYS = [
+	'content',
+	'chunkIndex',
+	'chunkStart',
+	'chunkHash',
+	'documentHash',
+	'chunkMetadata',
+	'embeddingModel',
+	'parentIndex',
+	PARENT_ID_KEY,
+	IS_PARENT_KEY,
+];
+
+/**
+ * A chunk of a document ready to be embedded, together with the payload
+ * that should be stored alongside its vector.
+ */
+export interface PreparedChunk {
+	/** The text that will be embedded. */
+	text: string;
+	/** The payload to store with the chunk's vector (includes `content`). */
+	payload: Record<string, any>;
+}
+
+/**
+ * The chunking strategies available to a provider.
+ * At most one of `chunkingModule` or `customChunker` is expected to be set;
+ * if neither is, the default simple chunker is used.
+ */
+export interface DocumentChunkerOptions {
+	logger: LoggerInterface;
+	chunkingModule?: ChunkingModule;
+	customChunker?: (content: string) => string[];
+}
+
+/**
+ * A document split into parent sections, each with the child chunks that will be embedded.
+ * Child payloads record their section's position as `parentIndex`.
+ */
+export interface HierarchicalChunks {
+	parents: PreparedChunk[];
+	chunks: PreparedChunk[];
+}
+
+/**
+ * A default, simple chunker to be used as a fallback.
+ */
+export function defaultSimpleChunker(text: string, chunkSize = 300, overlap = 50): string[] {
+	const chunks: string[] = [];
+	if (text.length <= chunkSize) {
+		return [text];
+	}
+
+	let i = 0;
+	while (i < text.length) {
+		const end = Math.min(i + chunkSize, text.length);
+		chunks.push(text.substring(i, end));
+		i += chunkSize - overlap;
+		if (end === text.length) break; // Exit if we reached the end
+	}
+	return chunks;
+}
+
+/**
+ * Finds the character offset at which each chunk starts in the text it was split from.
+ * A chunk is placed at its last occurrence starting no later than the end of the previous
+ * chunk, which is exact for overlapping and adjacent chunks even in repetitive text, and
+ * otherwise at its next occurrence after the previous chunk. A chunk whose text does not
+ * occur (e.g., because the chunker trimmed it) gets no offset.
+ */
+export function locateChunks(content: string, texts: string[]): (number | undefined)[] {
+	let previousStart = -1;
+	let previousEnd = 0;
+	return texts.map((text) => {
+		let start = content.lastIndexOf(text, previousEnd);
+		if (start <= previousStart) {
+			start = content.indexOf(text, previousEnd);
+		}
+		if (start < 0) {
+			return undefined;
+		}
+		previousStart = start;
+		previousEnd = start + text.length;
+		return start;
+	});
+}
+
+/**
+ * Returns `chunkStart` as a payload field, or no field if the offset is unknown.
+ */
+function startField(start: number | undefined): Record<string, number> {
+	return start === undefined ? {} : { chunkStart: start };
+}
+
+/**
+ * Returns the SHA-256 hex digest of a text, used to detect unchanged documents and chunks.
+ */
+export function hashContent(text: string): string {
+	return createHash('sha256').update(text, 'utf8').digest('hex');
+}
+
+/**
+ * Splits a document into chunks using the configured strategy and builds the
+ * payload for each chunk. Shared by all providers so that stored payloads have
+ * the same shape regardless of the backing vector store.
+ * Every payload records `documentHash` and `chunkHash` so unchanged text can reuse
+ * its stored embedding, and `chunkStart` so the document can be rebuilt from its chunks.
+ */
+export async function chunkDocument(
+	content: string,
+	metadata: Record<string, any>,
+	options: DocumentChunkerOptions
+): Promise<PreparedChunk[]> {
+	const { logger, chunkingModule, customChunker } = options;
+	const documentHash = hashContent(content);
+
+	if (chunkingModule) {
+		logger.debug('Using ChunkingModule to split document.');
+		const doc = {
+			content: content,
+			metadata: {
+				sourceId: metadata.sourceId || uuidv4(), // Use provided sourceId or generate a new one
+				...metadata,
+			},
+		};
+		const response = await chunkingModule.chunkDocuments([doc]);
+		const chunks = response.chunks as Chunk[];
+		const starts = locateChunks(content, chunks.map((chunk) => chunk.text));
+		return chunks.map((chunk, i) => ({
+			text: chunk.text,
+			payload: {
+				content: chunk.text,
+				...metadata, // Include original top-level metadata
+				chunkMetadata: chunk.metadata, // Nest chunk-specific metadata
+				chunkIndex: i, // Position in the document, used to restore reading order
+				...startField(starts[i]),
+				documentHash,
+				chunkHash: hashContent(chunk.text),
+			},
+		}));
+	}
+
+	let texts: string[];
+	if (customChunker) {
+		logger.debug('Using custom chunker function to split document.');
+		texts = customChunker(content);
+	} else {
+		logger.debug('Using default simple chunker to split document.');
+		texts = defaultSimpleChunker(content);
+	}
+
+	const starts = locateChunks(content, texts);
+	return texts.map((text, i) => ({
+		text,
+		payload: {
+			...metadata,
+			content: text,
+			chunkIndex: i,
+			...startField(starts[i]),
+			documentHash,
+			chunkHash: hashContent(text),
+		},
+	}));
+}
+
+/**
+ * Splits a document into parent sections with `parentChunker`, then splits each section
+ * into child chunks with the configured strategy. `chunkIndex` and `chunkStart` run across
+ * the whole document, and every payload records the hash of the whole document.
+ */
+export async function chunkDocumentHierarchically(
+	content: string,
+	metadata: Record<string, any>,
+	parentChunker: (content: string) => string[],
+	options: DocumentChunkerOptions
+): Promise<HierarchicalChunks> {
+	const documentHash = hashContent(content);
+	const sections = parentChunker(content);
+	const sectionStarts = locateChunks(content, sections);
+	options.logger.debug(`Document split into ${sections.length} parent sections.`);
+
+	const result: HierarchicalChunks = { parents: [], chunks: [] };
+	for (const [parentIndex, section] of sections.entries()) {
+		const sectionStart = sectionStarts[parentIndex];
+		result.parents.push({
+			text: section,
+			payload: { ...metadata, content: section, parentIndex, ...startField(sectionStart), documentHash, [IS_PARENT_KEY]: true },
+		});
+		for (const chunk of await chunkDocument(section, metadata, options)) {
+			// Offsets from chunkDocument are relative to the section
+			const { chunkStart, ...payload } = chunk.payload;
+			const start = sectionStart === undefined || chunkStart === undefined ? undefined : sectionStart + chunkStart;
+			result.chunks.push({
+				text: chunk.text,
+				payload: { ...payload, chunkIndex: result.chunks.length, ...startField(start), parentIndex, documentHash },
+			});
+		}
+	}
+	return result;
+}
+
+/**
+ * Derives a stable chunk ID from a document ID and the chunk's position in the document.
+ * Re-indexing the same document therefore overwrites its chunks instead of duplicating them.
+ * The same document ID in different namespaces yields different chunk IDs.
+ */
+export function chunkIdFor(documentId: string, chunkIndex: number, namespace?: string): string {
+	const key = namespace === undefined ? documentId : `${namespace}/${documentId}`;
+	return uuidv5(`${key}:${chunkIndex}`, CHUNK_ID_NAMESPACE);
+}
+
+/**
+ * Derives a stable parent section ID, in the same way as `chunkIdFor`.
+ */
+export function parentIdFor(documentId: string, parentIndex: number, namespace?: string): string {
+	const key = namespace === undefined ? documentId : `${namespace}/${documentId}`;
+	return uuidv5(`${key}:parent:${parentIndex}`, CHUNK_ID_NAMESPACE);
+}
+
+/**
+ * Converts a stored payload into a `PointRecord`, moving `content` out of the metadata.
+ */
+export function payloadToPointRecord(id: string | number, payload: Record<string, any> | null | undefined, vector?: number[]): PointRecord {
+	const { content, ...metadata } = payload ?? {};
+	const record: PointRecord = { id: String(id), metadata };
+	if (typeof content === 'string') {
+		record.content = content;
+	}
+	if (vector) {
+		record.vector = vector;
+	}
+	return record;
+}
+
+/**
+ * Converts a stored payload and score into a `RetrievedChunk`,
+ * moving `content` out of the metadata.
+ */
+export function payloadToRetrievedChunk(
+	payload: Record<string, any> | null | undefined,
+	score: number,
+	id?: string | number,
+	vector?: number[]
+): RetrievedChunk {
+	const content = (payload?.content as string) ?? ''; // Extract content
+	// Prepare metadata, excluding the content field itself
+	const metadata = { ...payload };
+	delete metadata.content;
+
+	const chunk: RetrievedChunk = {
+		id: id === undefined ? undefined : String(id),
+		content: content,
+		score: score,
+		metadata: Object.keys(metadata).length > 0 ? metadata : undefined,
+	};
+	if (vector) {
+		chunk.vector = vector;
+	}
+	return chunk;
+}
@@ -0,0 +1,106 @@
+interface QueuedText {
+	hash: string;
+	text: string;
+	resolve: (vector: number[] | undefined) => void;
+	reject: (error: unknown) => void;
+}
+
+/**
+ * Pools the chunk texts of documents ingested concurrently into shared embeddings calls.
+ * Texts queued in the same tick are batched together, full batches are sent right away,
+ * and at most `maxInFlight` calls run at once. A text already waiting for its vector
+ * (by hash) is not embedded a second time.
+ */
+export class EmbeddingBatcher {
+	private embedTexts: (texts: string[]) => Promise<number[][]>;
+	private batchSize: number;
+	private maxInFlight: number;
+	private queue: QueuedText[] = [];
+	private pending = new Map<string, Promise<number[] | undefined>>();
+	private inFlight = 0;
+	/** Set once the current tick has ended, so partial batches may be sent. */
+	private flushRequested = false;
+	private flushScheduled = false;
+
+	/**
+	 * @param embedTexts Embeds one batch of texts.
+	 * @param batchSize Maximum number of texts per call.
+	 * @param maxInFlight Maximum number of calls running at once.
+	 */
+	constructor(embedTexts: (texts: string[]) => Promise<number[][]>, batchSize: number, maxInFlight: number) {
+		this.embedTexts = embedTexts;
+		this.batchSize = batchSize;
+		this.maxInFlight = maxInFlight;
+	}
+
+	/**
+	 * Embeds texts keyed by their hash.
+	 * @returns The vectors by hash. A text the embeddings module returned no vector for is missing.
+	 * @throws The error of the first failed embeddings call covering one of the texts.
+	 */
+	async embed(texts: Map<string, string>): Promise<Map<string, number[]>> {
+		const entries = [...texts].map(([hash, text]) => {
+			let vector = this.pending.get(hash);
+			if (!vector) {
+				vector = new Promise<number[] | undefined>((resolve, reject) => {
+					this.queue.push({ hash, text, resolve, reject });
+				});
+				this.pending.set(hash, vector);
+				const forget = () => this.pending.delete(hash);
+				vector.then(forget, forget);
+			}
+			return vector.then((v) => [hash, v] as const);
+		});
+		this.scheduleFlush();
+		this.pump();
+		const vectors = new Map<string, number[]>();
+		for (const [hash, vector] of await Promise.all(entries)) {
+			if (vector) {
+				vectors.set(hash, vector);
+			}
+		}
+		return vectors;
+	}
+
+	private scheduleFlush(): void {
+		if (this.flushScheduled || this.queue.length === 0) {
+			return;
+		}
+		this.flushScheduled = true;
+		setImmediate(() => {
+			this.flushScheduled = false;
+			this.flushRequested = true;
+			this.pump();
+		});
+	}
+
+	/**
+	 * Sends batches while calls are available: full batches at any time, partial ones once flushed.
+	 */
+	private pump(): void {
+		while (
+			this.inFlight < this.maxInFlight &&
+			this.queue.length > 0 &&
+			(this.queue.length >= this.batchSize || this.flushRequested)
+		) {
+			const batch = this.queue.splice(0, this.batchSize);
+			if (this.queue.length === 0) {
+				this.flushRequested = false;
+			}
+			this.inFlight++;
+			this.send(batch).finally(() => {
+				this.inFlight--;
+				this.pump();
+			});
+		}
+	}
+
+	private async send(batch: QueuedText[]): Promise<void> {
+		try {
+			const vectors = await this.embedTexts(batch.map((entry) => entry.text));
+			batch.forEach((entry, i) => entry.resolve(vectors[i]));
+		} catch (error) {
+			batch.forEach((entry) => entry.reject(error));
+		}
+	}
+}
@@ -0,0 +1,446 @@
+import { promises as fs } from 'fs';
+import { join } from 'path';
+import { EmbeddingsModule } from 'ubc-genai-toolkit-embeddings';
+import { LoggerInterface } from 'ubc-genai-toolkit-core';
+import { ChunkingModule } from 'ubc-genai-toolkit-chunking';
+import { FileConfig, QdrantDistanceMetric, RetryPolicy, EmbeddingCache, ProviderStats } from '../types';
+import { RAGConfigurationError, RAGError, toProviderError } from '../errors';
+import { VectorPoint } from './base-provider';
+import { MemoryProvider } from './memory-provider';
+
+const MANIFEST_FILE = 'manifest.json';
+/** Created exclusively on startup and holding the owner's process ID, so only one provider uses a directory. */
+const LOCK_FILE = 'store.lock';
+const MANIFEST_VERSION = 1;
+const DEFAULT_SEGMENT_MAX_BYTES = 64 * 1024 * 1024;
+/** Compaction on startup only runs once this many superseded records have accumulated. */
+const MIN_COMPACTION_RECORDS = 1000;
+
+/**
+ * Describes the store: its schema and the segment files to replay, oldest first.
+ */
+interface Manifest {
+	version: number;
+	vectorSize?: number;
+	distanceMetric: QdrantDistanceMetric;
+	segments: string[];
+}
+
+/**
+ * One line of a segment file.
+ */
+type SegmentRecord = { op: 'put'; id: string; vector: number[]; payload: Record<string, any> } | { op: 'delete'; ids: string[] };
+
+function segmentName(sequence: number): string {
+	return `segment-${String(sequence).padStart(6, '0')}.jsonl`;
+}
+
+function segmentSequence(name: string): number {
+	return Number(/segment-(\d+)\.jsonl$/.exec(name)?.[1] ?? 0);
+}
+
+/**
+ * Checks whether a process with the given ID is running, without signalling it.
+ */
+function isProcessRunning(pid: number): boolean {
+	if (!Number.isInteger(pid) || pid <= 0) {
+		return false;
+	}
+	try {
+		process.kill(pid, 0);
+		return true;
+	} catch (error) {
+		// EPERM: the process exists but belongs to another user
+		return (error as NodeJS.ErrnoException).code === 'EPERM';
+	}
+}
+
+/**
+ * A RAG provider that persists vectors and payloads to a local directory, for running RAG
+ * in a single Node process without a vector database.
+ *
+ * Every write is appended to the active segment file (JSON lines) and synced to disk before
+ * it is applied in memory; a manifest lists the segments to replay on startup. Search is a
+ * brute-force scan in memory, as in the in-memory provider, so the whole store must fit in
+ * memory. Superseded and deleted records are dropped by `compact()`, which also runs on
+ * startup when they outnumber the live points.
+ *
+ * A lock file keeps a second provider, in this or another process, from opening the same
+ * directory until `close()` releases it. A lock left by a process that is no longer running
+ * is taken over.
+ */
+export class FileProvider extends MemoryProvider {
+	private fileConfig: FileConfig;
+	private manifest?: Manifest;
+	/** Bytes in the active (last) segment. */
+	private activeSegmentBytes = 0;
+	/** Serializes file writes so records land in the order they were issued. */
+	private writeQueue: Promise<void> = Promise.resolve();
+	/** Whether this provider holds the directory's lock file. */
+	private locked = false;
+
+	constructor(
+		config: FileConfig,
+		embeddingsModule: EmbeddingsModule,
+		logger: LoggerInterface,
+		debug = false,
+		chunkingModule?: ChunkingModule,
+		customChunker?: (content: string) => string[],
+		retryPolicy?: RetryPolicy,
+		embeddingModel?: string,
+		parentChunker?: (content: string) => string[],
+		embeddingCache?: EmbeddingCache
+	) {
+		super(config, embeddingsModule, logger, debug, chunkingModule, customChunker, retryPolicy, embeddingModel, parentChunker, embeddingCache);
+		this.fileConfig = config;
+		this.providerName = 'file';
+	}
+
+	async initialize(): Promise<void> {
+		this.logger.info(`Opening file-backed vector store in '${this.fileConfig.directory}'...`);
+		try {
+			await this.acquireLock();
+		} catch (error) {
+			throw this.storeError('initialization', error);
+		}
+		try {
+			await this.load();
+		} catch (error) {
+			await this.releaseLock();
+			throw error;
+		}
+	}
+
+	/**
+	 * Waits for pending writes, then releases the directory's lock so another process can
+	 * open the store. The provider must not be used afterwards.
+	 */
+	async close(): Promise<void> {
+		await this.writeQueue;
+		await this.releaseLock();
+		this.logger.info(`Closed file-backed vector store in '${this.fileConfig.directory}'.`);
+	}
+
+	/**
+	 * Reads the manifest and replays the segments, or creates an empty store.
+	 */
+	private async load(): Promise<void> {
+		const { directory } = this.fileConfig;
+		try {
+			this.manifest = await this.readManifest();
+		} catch (error) {
+			throw this.storeError('initialization', error);
+		}
+		if (!this.manifest) {
+			await this.createStore();
+			this.logger.info(`Created file-backed vector store in '${directory}'.`);
+			return;
+		}
+
+		this.verifySchema(this.manifest);
+		let records = 0;
+		try {
+			for (const segment of this.manifest.segments) {
+				records += await this.replaySegment(segment);
+			}
+		} catch (error) {
+			throw this.storeError('initialization', error);
+		}
+		this.verifyEmbeddingModel();
+		this.logger.info(`Loaded ${this.points.size} points from ${this.manifest.segments.length} segments in '${directory}'.`);
+
+		const superseded = records - this.points.size;
+		if (superseded >= MIN_COMPACTION_RECORDS && superseded > this.points.size) {
+			this.logger.info(`Compacting store: ${superseded} superseded records.`);
+			await this.compact();
+		}
+	}
+
+	protected async storePoints(points: VectorPoint[]): Promise<void> {
+		// Validate before writing, so a bad batch is never persisted
+		points.forEach((point) => this.assertVectorSize(point.vector));
+		await this.append(points.map((point) => ({ op: 'put', id: point.id, vector: point.vector, payload: point.payload })));
+		await super.storePoints(points);
+	}
+
+	protected async removePoints(ids: string[]): Promise<void> {
+		if (ids.length > 0) {
+			await this.append([{ op: 'delete', ids }]);
+		}
+		await super.removePoints(ids);
+	}
+
+	/**
+	 * Deletes the store's files and all stored points: the manifest, the segments it lists
+	 * and any temporary files they left behind. Other files in the directory are kept, and the
+	 * directory itself is only removed if it is then empty, which it is not while a provider
+	 * holds its lock. The store is recreated empty on the next write.
+	 */
+	async deleteStorage(): Promise<void> {
+		const { directory } = this.fileConfig;
+		this.logger.warn(`Deleting file-backed vector store in '${directory}'...`);
+		await this.enqueue(async () => {
+			const manifest = this.manifest ?? (await this.readManifest());
+			const names = [MANIFEST_FILE, ...(manifest?.segments ?? [])];
+			await Promise.all(
+				names.flatMap((name) => [name, `${name}.tmp`]).map((name) => fs.rm(join(directory, name), { force: true }))
+			);
+			this.manifest = undefined;
+			this.activeSegmentBytes = 0;
+			try {
+				await fs.rmdir(directory);
+			} catch (error) {
+				const code = (error as NodeJS.ErrnoException).code;
+				if (code !== 'ENOTEMPTY' && code !== 'EEXIST' && code !== 'ENOENT') {
+					throw error;
+				}
+			}
+		}, 'delete');
+		await super.deleteStorage();
+	}
+
+	async getStats(): Promise<ProviderStats> {
+		return { ...(await super.getStats()), storageName: this.fileConfig.directory };
+	}
+
+	/**
+	 * Rewrites the live points into a single new segment and removes the old segments,
+	 * reclaiming the space taken by overwritten and deleted points.
+	 */
+	async compact(): Promise<void> {
+		await this.enqueue(async () => {
+			const manifest = this.manifest ?? (await this.createStore());
+			const oldSegments = manifest.segments;
+			const name = segmentName(segmentSequence(oldSegments[oldSegments.length - 1] ?? '') + 1);
+			const lines = [...this.points.values()].map((point) =>
+				JSON.stringify({ op: 'put', id: point.id, vector: point.vector, payload: point.payload })
+			);
+			const data = lines.length > 0 ? lines.join('\n') + '\n' : '';
+			await this.writeFileAtomic(name, data);
+			await this.writeManifest({ ...manifest, segments: [name] });
+			this.activeSegmentBytes = Buffer.byteLength(data);
+			await Promise.all(oldSegments.map((segment) => fs.rm(join(this.fileConfig.directory, segment), { force: true })));
+			this.logger.info(`Compacted store into '${name}' (${this.points.size} points).`);
+		}, 'compaction');
+	}
+
+	/**
+	 * Creates the lock file, taking over one left by a process that is no longer running.
+	 * @throws {RAGConfigurationError} If a running process, possibly this one, holds the lock.
+	 */
+	private async acquireLock(): Promise<void> {
+		const { directory } = this.fileConfig;
+		const path = join(directory, LOCK_FILE);
+		await fs.mkdir(directory, { recursive: true });
+		try {
+			await fs.writeFile(path, String(process.pid), { flag: 'wx' });
+			this.locked = true;
+			return;
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+				throw error;
+			}
+		}
+
+		const owner = Number((await fs.readFile(path, 'utf8').catch(() => '')).trim());
+		if (isProcessRunning(owner)) {
+			throw new RAGConfigurationError(
+				`Store in '${directory}' is in use by process ${owner}; only one provider may open a store directory at a time.`,
+				{ provider: 'file', operation: 'initialization', details: { lockFile: path, pid: owner } }
+			);
+		}
+		this.logger.warn(`Taking over the lock on '${directory}' left by process ${owner || 'unknown'}, which is no longer running.`);
+		await fs.rm(path, { force: true });
+		await fs.writeFile(path, String(process.pid), { flag: 'wx' });
+		this.locked = true;
+	}
+
+	private async releaseLock(): Promise<void> {
+		if (!this.locked) {
+			return;
+		}
+		this.locked = false;
+		await fs.rm(join(this.fileConfig.directory, LOCK_FILE), { force: true });
+	}
+
+	private async readManifest(): Promise<Manifest | undefined> {
+		let raw: string;
+		try {
+			raw = await fs.readFile(join(this.fileConfig.directory, MANIFEST_FILE), 'utf8');
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+				return undefined;
+			}
+			throw error;
+		}
+		const manifest = JSON.parse(raw) as Manifest;
+		if (manifest.version !== MANIFEST_VERSION || !Array.isArray(manifest.segments)) {
+			throw new Error(`Unsupported manifest version ${manifest.version}.`);
+		}
+		return manifest;
+	}
+
+	private async createStore(): Promise<Manifest> {
+		await fs.mkdir(this.fileConfig.directory, { recursive: true });
+		const manifest: Manifest = {
+			version: MANIFEST_VERSION,
+			vectorSize: this.fileConfig.vectorSize,
+			distanceMetric: this.fileConfig.distanceMetric ?? 'Cosine',
+			segments: [segmentName(1)],
+		};
+		await fs.writeFile(join(this.fileConfig.directory, segmentName(1)), '');
+		await this.writeManifest(manifest);
+		this.activeSegmentBytes = 0;
+		return manifest;
+	}
+
+	/**
+	 * Checks the stored vector size and distance metric against the configuration.
+	 */
+	private verifySchema(manifest: Manifest): void {
+		const expected = { size: this.fileConfig.vectorSize, distance: this.fileConfig.distanceMetric ?? 'Cosine' };
+		const mismatches: string[] = [];
+		if (expected.size !== undefined && manifest.vectorSize !== undefined && manifest.vectorSize !== expected.size) {
+			mismatches.push(`vector size is ${manifest.vectorSize}, expected ${expected.size}`);
+		}
+		if (manifest.distanceMetric !== expected.distance) {
+			mismatches.push(`distance metric is ${manifest.distanceMetric}, expected ${expected.distance}`);
+		}
+		if (mismatches.length > 0) {
+			throw new RAGConfigurationError(
+				`Store in '${this.fileConfig.directory}' does not match the configuration: ${mismatches.join('; ')}.`,
+				{
+					provider: 'file',
+					operation: 'initialization',
+					details: { expected, actual: { size: manifest.vectorSize, distance: manifest.distanceMetric } },
+				}
+			);
+		}
+	}
+
+	/**
+	 * Rejects a store whose chunks were embedded with a different model, since their vectors
+	 * are not comparable with new query embeddings.
+	 */
+	private verifyEmbeddingModel(): void {
+		if (!this.embeddingModel) {
+			return;
+		}
+		for (const point of this.points.values()) {
+			const stored = point.payload.embeddingModel;
+			if (stored && stored !== this.embeddingModel) {
+				throw new RAGConfigurationError(
+					`Store in '${this.fileConfig.directory}' does not match the configuration: chunks were embedded with '${stored}', expected '${this.embeddingModel}'.`,
+					{ provider: 'file', operation: 'initialization', details: { expected: this.embeddingModel, actual: stored } }
+				);
+			}
+		}
+	}
+
+	/**
+	 * Applies a segment's records to the in-memory points.
+	 * A partial last line left by an interrupted write is truncated away.
+	 * @returns The number of records applied.
+	 */
+	private async replaySegment(segment: string): Promise<number> {
+		const path = join(this.fileConfig.directory, segment);
+		const data = await fs.readFile(path, 'utf8');
+		const lines = data.split('\n');
+		const tail = lines.pop()!; // Empty when the file ends with a newline
+		if (tail.length > 0) {
+			this.logger.warn(`Discarding incomplete record at the end of '${segment}'.`);
+			await fs.truncate(path, Buffer.byteLength(data) - Buffer.byteLength(tail));
+		}
+
+		let applied = 0;
+		lines.forEach((line, i) => {
+			if (line.length === 0) {
+				return;
+			}
+			let record: SegmentRecord;
+			try {
+				record = JSON.parse(line) as SegmentRecord;
+			} catch {
+				throw new Error(`Corrupt record on line ${i + 1} of '${segment}'.`);
+			}
+			if (record.op === 'put') {
+				this.points.set(record.id, { id: record.id, vector: record.vector, payload: record.payload });
+			} else {
+				record.ids.forEach((id) => this.points.delete(id));
+			}
+			applied++;
+		});
+		this.activeSegmentBytes = Buffer.byteLength(data) - Buffer.byteLength(tail);
+		return applied;
+	}
+
+	/**
+	 * Appends records to the active segment and syncs them to disk, starting a new segment
+	 * once the active one reaches `segmentMaxBytes`.
+	 */
+	private append(records: SegmentRecord[]): Promise<void> {
+		if (records.length === 0) {
+			return Promise.resolve();
+		}
+		return this.enqueue(async () => {
+			const manifest = this.manifest ?? (await this.createStore());
+			this.manifest = manifest;
+			const data = records.map((record) => JSON.stringify(record)).join('\n') + '\n';
+			const active = manifest.segments[manifest.segments.length - 1];
+			const handle = await fs.open(join(this.fileConfig.directory, active), 'a');
+			try {
+				await handle.appendFile(data, 'utf8');
+				await handle.datasync();
+			} finally {
+				await handle.close();
+			}
+			this.activeSegmentBytes += Buffer.byteLength(data);
+
+			if (this.activeSegmentBytes >= (this.fileConfig.segmentMaxBytes ?? DEFAULT_SEGMENT_MAX_BYTES)) {
+				// Truncates any leftover file of the same name from an interrupted compaction
+				const next = segmentName(segmentSequence(active) + 1);
+				await fs.writeFile(join(this.fileConfig.directory, next), '');
+				await this.writeManifest({ ...manifest, segments: [...manifest.segments, next] });
+				this.activeSegmentBytes = 0;
+				this.logger.debug(`Started segment '${next}'.`);
+			}
+		}, 'write');
+	}
+
+	/**
+	 * Runs a file operation after all previously queued ones, converting failures to RAG errors.
+	 */
+	private enqueue(operation: () => Promise<void>, label: string): Promise<void> {
+		const run = this.writeQueue.then(operation).catch((error) => {
+			throw this.storeError(label, error);
+		});
+		this.writeQueue = run.catch(() => undefined);
+		return run;
+	}
+
+	private async writeManifest(manifest: Manifest): Promise<void> {
+		await this.writeFileAtomic(MANIFEST_FILE, JSON.stringify(manifest, null, 2));
+		this.manifest = manifest;
+	}
+
+	/**
+	 * Writes a file in the store directory via a temporary file and rename, so readers
+	 * never see it half-written.
+	 */
+	private async writeFileAtomic(name: string, data: string): Promise<void> {
+		const path = join(this.fileConfig.directory, name);
+		const tempPath = `${path}.tmp`;
+		const handle = await fs.open(tempPath, 'w');
+		try {
+			await handle.writeFile(data, 'utf8');
+			await handle.sync();
+		} finally {
+			await handle.close();
+		}
+		await fs.rename(tempPath, path);
+	}
+
+	private storeError(operation: string, error: unknown): RAGError {
+		return toProviderError(error, 'file', 'File store', operation);
+	}
+}
@@ -0,0 +1,246 @@
+import { EmbeddingsModule } from 'ubc-genai-toolkit-embeddings';
+import { LoggerInterface } from 'ubc-genai-toolkit-core';
+import { ChunkingModule } from 'ubc-genai-toolkit-chunking';
+import {
+	MemoryConfig,
+	QdrantDistanceMetric,
+	RetrievedChunk,
+	RetrievalOptions,
+	MetadataFilter,
+	RetryPolicy,
+	EmbeddingCache,
+	StoredPoint,
+	PointListOptions,
+	PointPage,
+	ProviderStats,
+} from '../types';
+import { matchesFilter, normalizeFilter } from '../filters';
+import { EmbeddingError, VectorDimensionMismatchError } from '../errors';
+import { BaseRAGProvider, VectorPoint } from './base-provider';
+import { NAMESPACE_KEY, payloadToPointRecord, payloadToRetrievedChunk } from './document-chunker';
+import { DEFAULT_PAGE_SIZE, decodeCursor, encodeCursor, selectFields } from './pagination';
+import { bm25Score, buildCorpusStats, tokenize, uniqueTerms } from '../retrieval/bm25';
+import { compareScores, passesScoreThreshold, scoreVector } from './vector-math';
+
+/**
+ * A RAG provider that keeps all vectors and payloads in process memory.
+ * Intended for unit tests and offline use; nothing is persisted.
+ * Search is a brute-force scan over every stored point.
+ */
+export class MemoryProvider extends BaseRAGProvider {
+	protected points = new Map<string, VectorPoint>();
+	/** Provider name reported in errors. */
+	protected providerName = 'memory';
+	private config: MemoryConfig;
+	private distanceMetric: QdrantDistanceMetric;
+
+	constructor(
+		config: MemoryConfig,
+		embeddingsModule: EmbeddingsModule,
+		logger: LoggerInterface,
+		debug = false,
+		chunkingModule?: ChunkingModule,
+		customChunker?: (content: string) => string[],
+		retryPolicy?: RetryPolicy,
+		embeddingModel?: string,
+		parentChunker?: (content: string) => string[],
+		embeddingCache?: EmbeddingCache
+	) {
+		super(embeddingsModule, logger, debug, chunkingModule, customChunker, retryPolicy, embeddingModel, parentChunker, embeddingCache);
+		this.config = config;
+		this.distanceMetric = config.distanceMetric ?? 'Cosine';
+
+		if (this.isDebug) {
+			this.logger.debug('MemoryProvider configured:', { distanceMetric: this.distanceMetric, vectorSize: this.config.vectorSize });
+		}
+	}
+
+	async initialize(): Promise<void> {
+		this.logger.info('In-memory vector store ready.');
+	}
+
+	protected async storePoints(points: VectorPoint[]): Promise<void> {
+		// Validate every vector before writing any, so a bad batch leaves the store unchanged
+		points.forEach((point) => this.assertVectorSize(point.vector));
+		for (const point of points) {
+			this.points.set(point.id, point);
+		}
+		this.logger.info(`Successfully stored ${points.length} points in memory.`);
+	}
+
+	protected async findVectorsByChunkHash(hashes: string[]): Promise<Map<string, number[]>> {
+		const wanted = new Set(hashes);
+		const found = new Map<string, number[]>();
+		for (const point of this.points.values()) {
+			const hash = point.payload.chunkHash;
+			if (this.embeddingModel && point.payload.embeddingModel !== this.embeddingModel) {
+				continue;
+			}
+			if (wanted.has(hash) && !found.has(hash)) {
+				found.set(hash, point.vector);
+			}
+		}
+		return found;
+	}
+
+	protected async listDocumentChunkIds(documentId: string, namespace?: string): Promise<string[]> {
+		return [...this.points.values()]
+			.filter((point) => point.payload.sourceId === documentId && point.payload[NAMESPACE_KEY] === namespace)
+			.map((point) => point.id);
+	}
+
+	async retrieveContext(queryText: string, options: RetrievalOptions = {}): Promise<RetrievedChunk[]> {
+		this.logger.debug(`Retrieving context for query: "${queryText.substring(0, 50)}..." with options:`, options);
+		const [queryVector] = await this.embed(queryText);
+		if (!queryVector) {
+			throw new EmbeddingError('Failed to generate embedding for the query text.', { provider: this.providerName, operation: 'search' });
+		}
+		this.assertVectorSize(queryVector);
+
+		const scored: { point: VectorPoint; score: number }[] = [];
+		for (const point of this.points.values()) {
+			if (!matchesFilter(point.payload, options.filter)) {
+				continue;
+			}
+			const score = scoreVector(this.distanceMetric, queryVector, point.vector);
+			if (passesScoreThreshold(this.distanceMetric, score, options.scoreThreshold)) {
+				scored.push({ point, score });
+			}
+		}
+
+		scored.sort((a, b) => compareScores(this.distanceMetric, a.score, b.score));
+		const results = scored.slice(0, options.limit ?? 5);
+		this.logger.debug(`In-memory search returned ${results.length} results.`);
+
+		return results.map(({ point, score }) => payloadToRetrievedChunk(point.payload, score, point.id, options.includeVectors ? point.vector : undefined));
+	}
+
+	async keywordSearch(queryText: string, options: RetrievalOptions = {}): Promise<RetrievedChunk[]> {
+		this.logger.debug(`Keyword search for query: "${queryText.substring(0, 50)}..." with options:`, options);
+		const queryTerms = uniqueTerms(queryText);
+		if (queryTerms.length === 0) {
+			return [];
+		}
+
+		// Corpus statistics are computed over the filtered set, so IDF reflects the searched scope
+		const candidates = [...this.points.values()].filter((point) => matchesFilter(point.payload, options.filter));
+		const tokenized = candidates.map((point) => tokenize(String(point.payload.content ?? '')));
+		const stats = buildCorpusStats(tokenized);
+
+		const results = candidates
+			.map((point, i) => ({ point, score: bm25Score(queryTerms, tokenized[i], stats) }))
+			.filter(({ score }) => score > 0)
+			.sort((a, b) => b.score - a.score)
+			.slice(0, options.limit ?? 5);
+		this.logger.debug(`In-memory keyword search returned ${results.length} results.`);
+
+		return results.map(({ point, score }) => payloadToRetrievedChunk(point.payload, score, point.id, options.includeVectors ? point.vector : undefined));
+	}
+
+	async getDocumentsByMetadata(filter: MetadataFilter): Promise<any[]> {
+		this.logger.debug('Getting all documents by metadata filter:', { filter });
+		const matches = [...this.points.values()].filter((point) => matchesFilter(point.payload, filter));
+		this.logger.debug(`Retrieved a total of ${matches.length} points for the filter.`);
+
+		return matches.map((point) => ({
+			id: point.id,
+			content: point.payload.content,
+			metadata: point.payload,
+			vector: point.vector,
+		}));
+	}
+
+	/**
+	 * Lists matching points in ID order; the cursor is the ID of the next point.
+	 */
+	async listPoints(options: PointListOptions): Promise<PointPage> {
+		const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+		const from = options.cursor === undefined ? undefined : String(decodeCursor(options.cursor));
+		const matches = [...this.points.values()]
+			.filter((point) => (from === undefined || point.id >= from) && matchesFilter(point.payload, options.filter))
+			.sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+		const page = matches.slice(0, pageSize);
+		return {
+			records: page.map((point) =>
+				payloadToPointRecord(point.id, selectFields(point.payload, options.fields), options.withVectors ? point.vector : undefined)
+			),
+			nextCursor: matches.length > pageSize ? encodeCursor(matches[pageSize].id) : undefined,
+		};
+	}
+
+	async countPoints(filter?: MetadataFilter): Promise<number> {
+		let count = 0;
+		for (const point of this.points.values()) {
+			if (matchesFilter(point.payload, filter)) {
+				count++;
+			}
+		}
+		return count;
+	}
+
+	async getStats(): Promise<ProviderStats> {
+		const [first] = this.points.values();
+		return {
+			pointCount: this.points.size,
+			vectorSize: this.config.vectorSize ?? first?.vector.length,
+			distanceMetric: this.distanceMetric,
+			indexStatus: 'green',
+			payloadIndexes: [],
+		};
+	}
+
+	async ping(): Promise<void> {
+		// The store lives in this process, so it is always reachable
+	}
+
+	async *exportPoints(batchSize: number): AsyncIterable<StoredPoint[]> {
+		const points = [...this.points.values()];
+		for (let i = 0; i < points.length; i += batchSize) {
+			yield points.slice(i, i + batchSize);
+		}
+	}
+
+	async deleteDocumentsByIds(ids: string[], filter?: MetadataFilter): Promise<void> {
+		if (!ids || ids.length === 0) {
+			this.logger.warn('No IDs provided for deletion.');
+			return;
+		}
+		const matched = [...new Set(ids)].filter((id) => {
+			const point = this.points.get(id);
+			return point !== undefined && matchesFilter(point.payload, filter);
+		});
+		await this.removePoints(matched);
+		this.logger.info(`Successfully deleted ${matched.length} documents by ID.`);
+	}
+
+	async deleteDocumentsByMetadata(filter: MetadataFilter): Promise<void> {
+		if (!normalizeFilter(filter)) {
+			this.logger.warn('No filter provided for deletion by metadata.');
+			return;
+		}
+		const matched = [...this.points.values()].filter((point) => matchesFilter(point.payload, filter)).map((point) => point.id);
+		await this.removePoints(matched);
+		this.logger.info(`Deleted ${matched.length} documents matching filter.`);
+	}
+
+	async deleteStorage(): Promise<void> {
+		this.logger.warn('Clearing in-memory vector store...');
+		this.points.clear();
+	}
+
+	/**
+	 * Removes points by ID. Both deletion methods go through here, so subclasses that
+	 * persist the store can record deletions.
+	 */
+	protected async removePoints(ids: string[]): Promise<void> {
+		for (const id of ids) {
+			this.points.delete(id);
+		}
+	}
+
+	protected assertVectorSize(vector: number[]): void {
+		if (this.config.vectorSize !== undefined && vector.length !== this.config.vectorSize) {
+			throw new VectorDimensionMismatchError(this.config.vectorSize, vector.length, { provider: this.providerName, operation: 'upsert' });
+		}
+	}
+}
@@ -0,0 +1,36 @@
+import { RAGConfigurationError } from '../errors';
+
+/** Points per page when listing without an explicit page size. */
+export const DEFAULT_PAGE_SIZE = 100;
+
+/**
+ * Encodes a provider's position in a listing (e.g., the next point ID) as an opaque cursor.
+ */
+export function encodeCursor(position: string | number): string {
+	return Buffer.from(JSON.stringify(position), 'utf8').toString('base64url');
+}
+
+/**
+ * Decodes a cursor produced by `encodeCursor`.
+ */
+export function decodeCursor(cursor: string): string | number {
+	try {
+		const position = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+		if (typeof position === 'string' || typeof position === 'number') {
+			return position;
+		}
+	} catch {
+		// Reported below
+	}
+	throw new RAGConfigurationError(`Invalid cursor: '${cursor}'.`);
+}
+
+/**
+ * Keeps only the listed top-level fields of a payload, or the whole payload if none are listed.
+ */
+export function selectFields(payload: Record<string, any>, fields?: string[]): Record<string, any> {
+	if (!fields) {
+		return payload;
+	}
+	return Object.fromEntries(fields.filter((field) => field in payload).map((field) => [field, payload[field]]));
+}
@@ -0,0 +1,46 @@
+import type { Schemas as QdrantSchemas } from '@qdrant/js-client-rest';
+import { FilterExpression, MetadataFilter } from '../types';
+import { normalizeFilter } from '../filters';
+import { RAGConfigurationError } from '../errors';
+
+/**
+ * Translates a provider-neutral metadata filter into a Qdrant `Filter`.
+ * Returns undefined for a missing or empty filter so that no restriction is applied.
+ * Dotted keys are passed through unchanged, as Qdrant resolves nested payload fields natively.
+ */
+export function toQdrantFilter(filter?: MetadataFilter): QdrantSchemas['Filter'] | undefined {
+	const expr = normalizeFilter(filter);
+	if (!expr) {
+		return undefined;
+	}
+	if (expr.op === 'and') {
+		return { must: expr.filters.map(toQdrantCondition) };
+	}
+	return { must: [toQdrantCondition(expr)] };
+}
+
+function toQdrantCondition(expr: FilterExpression): QdrantSchemas['Condition'] {
+	switch (expr.op) {
+		case 'and':
+			return { must: expr.filters.map(toQdrantCondition) };
+		case 'or':
+			return { should: expr.filters.map(toQdrantCondition) };
+		case 'not':
+			return { must_not: [toQdrantCondition(expr.filter)] };
+		case 'eq':
+			return { key: expr.key, match: { value: expr.value } };
+		case 'in':
+			// Qdrant accepts homogeneous keyword or integer lists for 'any'
+			return { key: expr.key, match: { any: expr.values as string[] | number[] } };
+		case 'range':
+			return {
+				key: expr.key,
+				range: { gt: expr.gt, gte: expr.gte, lt: expr.lt, lte: expr.lte },
+			};
+		case 'exists':
+			// 'is_empty' matches missing, null and empty-array values
+			return { must_not: [{ is_empty: { key: expr.key } }] };
+		default:
+			throw new RAGConfigurationError(`Unsupported filter operation: ${(expr as { op: string }).op}`);
+	}
+}
@@ -2,25 +2,61 @@ import { QdrantClient } from '@qdrant/js-client-rest';
 import type { Schemas as QdrantSchemas } from '@qdrant/js-client-rest';
 import { EmbeddingsModule } from 'ubc-genai-toolkit-embeddings';
 import { LoggerInterface } from 'ubc-genai-toolkit-core';
-import { ChunkingModule, Chunk } from 'ubc-genai-toolkit-chunking';
+import { ChunkingModule } from 'ubc-genai-toolkit-chunking';
 import {
-	RAGProviderInterface,
 	QdrantConfig,
 	RetrievedChunk,
 	RetrievalOptions,
+	MetadataFilter,
+	RetryPolicy,
+	EmbeddingCache,
+	StoredPoint,
+	PointListOptions,
+	PointPage,
+	QdrantDistanceMetric,
+	EmbeddingMigrationOptions,
+	EmbeddingMigrationResult,
+	PayloadIndexConfig,
+	PayloadIndexInfo,
+	PayloadIndexType,
+	ProviderStats,
 } from '../types';
-import { v4 as uuidv4 } from 'uuid';
+import { BaseRAGProvider, VectorPoint } from './base-provider';
+import { IS_PARENT_KEY, NAMESPACE_KEY, PARENT_ID_KEY, payloadToPointRecord, payloadToRetrievedChunk } from './document-chunker';
+import { DEFAULT_PAGE_SIZE, decodeCursor, encodeCursor } from './pagination';
+import { toQdrantFilter } from './qdrant-filter';
+import { EmbeddingError, RAGConfigurationError, RAGError, RAGNotFoundError, isNotFoundError, toProviderError } from '../errors';
+import { bm25Score, buildCorpusStats, tokenize, uniqueTerms } from '../retrieval/bm25';
 
 const BATCH_SIZE = 50;
-
-export class QdrantProvider implements RAGProviderInterface {
+/** Maximum number of candidate chunks scored by keyword search. */
+const KEYWORD_CANDIDATE_LIMIT = 1000;
+/** Query terms found in more than this share of chunks are not used to select keyword search candidates. */
+const COMMON_TERM_RATIO = 0.5;
+const MIGRATION_BATCH_SIZE = 64;
+
+/** Fields the module filters on itself, indexed in every collection. */
+const BUILT_IN_INDEXES: PayloadIndexConfig[] = [
+	{ field: NAMESPACE_KEY, type: 'keyword' },
+	{ field: 'sourceId', type: 'keyword' },
+	{ field: 'chunkHash', type: 'keyword' },
+	{ field: PARENT_ID_KEY, type: 'keyword' },
+	{ field: IS_PARENT_KEY, type: 'bool' },
+];
+
+type CollectionInfo = Awaited<ReturnType<QdrantClient['getCollection']>>;
+
+function payloadIndexesOf(info: CollectionInfo): PayloadIndexInfo[] {
+	return Object.entries(info.payload_schema ?? {}).flatMap(([field, schema]) =>
+		schema ? [{ field, type: schema.data_type as PayloadIndexType, indexedPoints: schema.points }] : []
+	);
+}
+
+export class QdrantProvider extends BaseRAGProvider {
 	private client: QdrantClient;
 	private config: QdrantConfig;
-	private embeddings: EmbeddingsModule;
-	private logger: LoggerInterface;
-	private chunkingModule?: ChunkingModule;
-	private customChunker?: (content: string) => string[];
-	private isDebug: boolean;
+	/** Set once `content` is known to have a full-text index, which keyword search requires. */
+	private keywordIndexReady = false;
 
 	constructor(
 		config: QdrantConfig,
@@ -28,14 +64,14 @@ export class QdrantProvider implements RAGProviderInterface {
 		logger: LoggerInterface,
 		debug = false,
 		chunkingModule?: ChunkingModule,
-		customChunker?: (content: string) => string[]
+		customChunker?: (content: string) => string[],
+		retryPolicy?: RetryPolicy,
+		embeddingModel?: string,
+		parentChunker?: (content: string) => string[],
+		embeddingCache?: EmbeddingCache
 	) {
+		super(embeddingsModule, logger, debug, chunkingModule, customChunker, retryPolicy, embeddingModel, parentChunker, embeddingCache);
 		this.config = config;
-		this.embeddings = embeddingsModule;
-		this.logger = logger;
-		this.isDebug = debug;
-		this.chunkingModule = chunkingModule;
-		this.customChunker = customChunker;
 
 		// Initialize Qdrant client
 		this.client = new QdrantClient({
@@ -48,198 +84,608 @@ export class QdrantProvider implements RAGProviderInterface {
 		}
 	}
 
+	/**
+	 * Converts a Qdrant client error into the matching typed RAG error.
+	 */
+	private providerError(operation: string, error: unknown): RAGError {
+		return toProviderError(error, 'qdrant', 'Qdrant', operation);
+	}
+
 	async initialize(): Promise<void> {
 		try {
 			this.logger.info(`Checking for Qdrant collection '${this.config.collectionName}'...`);
-			const collections = await this.client.getCollections();
-			const collectionExists = collections.collections.some(
-				(col) => col.name === this.config.collectionName
-			);
+			const collectionName = await this.resolveCollectionName();
 
-			if (!collectionExists) {
+			if (!collectionName) {
 				this.logger.warn(
 					`Collection '${this.config.collectionName}' not found. Attempting to create...`
 				);
-				await this.client.createCollection(this.config.collectionName, {
-					vectors: {
-						size: this.config.vectorSize,
-						distance: this.config.distanceMetric,
-					},
-				});
-				this.logger.info(`Collection '${this.config.collectionName}' created successfully.`);
+				await this.createCollection(this.config.collectionName, this.config.vectorSize, this.config.distanceMetric);
 			} else {
-				this.logger.info(`Collection '${this.config.collectionName}' exists.`);
-				// Optionally, we could verify if the existing collection's config matches
+				this.logger.info(
+					collectionName === this.config.collectionName
+						? `Collection '${collectionName}' exists.`
+						: `Alias '${this.config.collectionName}' points to collection '${collectionName}'.`
+				);
+				await this.verifyCollectionSchema(collectionName);
 			}
+			await this.reconcilePayloadIndexes(collectionName ?? this.config.collectionName);
 		} catch (error) {
 			this.logger.error('Error during Qdrant initialization:', { error });
-			throw new Error(`Qdrant initialization failed: ${error instanceof Error ? error.message : String(error)}`);
+			throw this.providerError('initialization', error);
 		}
 	}
 
 	/**
-	 * A default, simple chunker to be used as a fallback.
+	 * Resolves the configured collection name, which may be an alias, to the
+	 * collection it refers to.
+	 * @returns The collection name, or undefined if neither a collection nor an alias exists.
 	 */
-	private defaultSimpleChunker(text: string, chunkSize = 300, overlap = 50): string[] {
-		const chunks: string[] = [];
-		if (text.length <= chunkSize) {
-			return [text];
+	private async resolveCollectionName(): Promise<string | undefined> {
+		const name = this.config.collectionName;
+		const { aliases } = await this.withRetry('Qdrant getAliases', () => this.client.getAliases());
+		const alias = aliases.find((a) => a.alias_name === name);
+		if (alias) {
+			return alias.collection_name;
 		}
+		const { collections } = await this.withRetry('Qdrant getCollections', () => this.client.getCollections());
+		return collections.some((col) => col.name === name) ? name : undefined;
+	}
+
+	/**
+	 * Creates the built-in indexes and the indexes declared in `payloadIndexes` that are
+	 * missing from a collection, and recreates declared indexes whose type differs. Built-in indexes only
+	 * speed up lookups, so failing to create one (e.g., on an older Qdrant version) logs a warning.
+	 */
+	private async reconcilePayloadIndexes(collectionName: string): Promise<void> {
+		const configured = this.config.payloadIndexes ?? [];
+		const existing = new Map((await this.payloadIndexesIn(collectionName)).map((index) => [index.field, index.type]));
 
-		let i = 0;
-		while (i < text.length) {
-			const end = Math.min(i + chunkSize, text.length);
-			chunks.push(text.substring(i, end));
-			i += chunkSize - overlap;
-			if (end === text.length) break; // Exit if we reached the end
+		for (const index of BUILT_IN_INDEXES) {
+			if (existing.has(index.field) || configured.some((c) => c.field === index.field)) {
+				continue;
+			}
+			try {
+				await this.createPayloadIndexIn(collectionName, index);
+			} catch (error) {
+				this.logger.warn(`Could not create the built-in '${index.field}' payload index; filters on it may be slower.`, { error });
+			}
 		}
-		return chunks;
+		for (const index of configured) {
+			if (existing.get(index.field) !== index.type) {
+				await this.createPayloadIndexIn(collectionName, index);
+			}
+		}
+	}
+
+	async listPayloadIndexes(): Promise<PayloadIndexInfo[]> {
+		return this.payloadIndexesIn((await this.resolveCollectionName()) ?? this.config.collectionName);
+	}
+
+	async createPayloadIndex(index: PayloadIndexConfig): Promise<void> {
+		await this.createPayloadIndexIn((await this.resolveCollectionName()) ?? this.config.collectionName, index);
 	}
 
-	async addDocument(content: string, metadata: Record<string, any> = {}): Promise<string[]> {
-		this.logger.debug(`Adding document with metadata:`, metadata);
-
-		let chunks: (Chunk | string)[] = [];
-		let isChunkModuleUsed = false;
-
-		// 1. Chunk the document using the provided strategy
-		if (this.chunkingModule) {
-			this.logger.debug('Using ChunkingModule to split document.');
-			isChunkModuleUsed = true;
-			const doc = {
-				content: content,
-				metadata: {
-					sourceId: metadata.sourceId || uuidv4(), // Use provided sourceId or generate a new one
-					...metadata,
+	private async payloadIndexesIn(collectionName: string): Promise<PayloadIndexInfo[]> {
+		try {
+			const info = await this.withRetry('Qdrant getCollection', () => this.client.getCollection(collectionName));
+			return payloadIndexesOf(info);
+		} catch (error) {
+			this.logger.error('Error listing Qdrant payload indexes:', { error });
+			throw this.providerError('payload index listing', error);
+		}
+	}
+
+	private async createPayloadIndexIn(collectionName: string, index: PayloadIndexConfig): Promise<void> {
+		try {
+			const existing = (await this.payloadIndexesIn(collectionName)).find((i) => i.field === index.field);
+			if (existing?.type === index.type) {
+				return;
+			}
+			if (existing) {
+				this.logger.warn(`Replacing '${existing.type}' payload index on '${index.field}' with a '${index.type}' index.`);
+				await this.withRetry('Qdrant deletePayloadIndex', () =>
+					this.client.deletePayloadIndex(collectionName, index.field, { wait: true })
+				);
+			}
+			await this.withRetry('Qdrant createPayloadIndex', () =>
+				this.client.createPayloadIndex(collectionName, {
+					field_name: index.field,
+					// Flag the namespace as a tenant key so Qdrant co-locates each namespace's points
+					field_schema:
+						index.field === NAMESPACE_KEY && index.type === 'keyword' ? { type: 'keyword', is_tenant: true } : index.type,
+					wait: true,
+				})
+			);
+			this.logger.info(`Created '${index.type}' payload index on '${index.field}'.`);
+		} catch (error) {
+			this.logger.error(`Error creating payload index on '${index.field}':`, { error });
+			throw this.providerError('payload index creation', error);
+		}
+	}
+
+	private async createCollection(name: string, vectorSize: number, distanceMetric: QdrantDistanceMetric): Promise<void> {
+		await this.withRetry('Qdrant createCollection', () =>
+			this.client.createCollection(name, {
+				vectors: {
+					size: vectorSize,
+					distance: distanceMetric,
 				},
-			};
-			const response = await this.chunkingModule.chunkDocuments([doc]);
-			chunks = response.chunks;
-		} else if (this.customChunker) {
-			this.logger.debug('Using custom chunker function to split document.');
-			chunks = this.customChunker(content);
+			})
+		);
+		this.logger.info(`Collection '${name}' created successfully.`);
+	}
+
+	/**
+	 * Compares the existing collection's vector size, distance metric and embedding model
+	 * with the configuration and applies the `onSchemaMismatch` policy if they differ.
+	 */
+	private async verifyCollectionSchema(collectionName: string): Promise<void> {
+		const { vectorSize, distanceMetric } = this.config;
+		const info = await this.withRetry('Qdrant getCollection', () => this.client.getCollection(collectionName));
+		const vectors = info.config.params.vectors as QdrantSchemas['VectorsConfig'] | undefined;
+
+		const mismatches: string[] = [];
+		let actual: { size?: number; distance?: string; embeddingModel?: string } = {};
+		if (!vectors || typeof vectors.size !== 'number') {
+			mismatches.push('collection does not use a single unnamed vector');
 		} else {
-			this.logger.debug('Using default simple chunker to split document.');
-			chunks = this.defaultSimpleChunker(content);
+			actual = { size: vectors.size as number, distance: vectors.distance as string };
+			if (actual.size !== vectorSize) {
+				mismatches.push(`vector size is ${actual.size}, expected ${vectorSize}`);
+			}
+			if (actual.distance !== distanceMetric) {
+				mismatches.push(`distance metric is ${actual.distance}, expected ${distanceMetric}`);
+			}
+		}
+		actual.embeddingModel = await this.getStoredEmbeddingModel(collectionName);
+		if (this.embeddingModel && actual.embeddingModel && actual.embeddingModel !== this.embeddingModel) {
+			mismatches.push(`chunks were embedded with '${actual.embeddingModel}', expected '${this.embeddingModel}'`);
+		}
+		if (mismatches.length === 0) {
+			this.logger.debug(`Collection '${collectionName}' matches the configured schema.`);
+			return;
 		}
 
-		this.logger.debug(`Document split into ${chunks.length} chunks.`);
-		if (chunks.length === 0) {
-			this.logger.warn('Document content resulted in zero chunks. Nothing to add.');
-			return [];
+		const message = `Collection '${collectionName}' does not match the configuration: ${mismatches.join('; ')}.`;
+		switch (this.config.onSchemaMismatch ?? 'fail') {
+			case 'warn':
+				this.logger.warn(`${message} Continuing because onSchemaMismatch is 'warn'.`);
+				return;
+			case 'recreate':
+				this.logger.warn(`${message} Recreating the collection; all stored documents will be lost.`);
+				await this.withRetry('Qdrant deleteCollection', () => this.client.deleteCollection(collectionName));
+				await this.createCollection(collectionName, vectorSize, distanceMetric);
+				if (collectionName !== this.config.collectionName) {
+					// Deleting a collection also deletes the aliases pointing to it
+					await this.withRetry('Qdrant updateCollectionAliases', () =>
+						this.client.updateCollectionAliases({
+							actions: [{ create_alias: { collection_name: collectionName, alias_name: this.config.collectionName } }],
+						})
+					);
+					this.logger.info(`Alias '${this.config.collectionName}' points to recreated collection '${collectionName}'.`);
+				}
+				return;
+			default:
+				throw new RAGConfigurationError(message, {
+					provider: 'qdrant',
+					operation: 'initialization',
+					details: {
+						collectionName,
+						expected: { size: vectorSize, distance: distanceMetric, embeddingModel: this.embeddingModel },
+						actual,
+					},
+				});
 		}
+	}
+
+	/**
+	 * Reads the embedding model stamped on a stored chunk, if any. The identity is kept on
+	 * chunks because Qdrant collections carry no metadata of their own, so an empty collection
+	 * has none and any model passes. Chunks stored before model stamping was introduced have no stamp.
+	 */
+	private async getStoredEmbeddingModel(collectionName: string): Promise<string | undefined> {
+		const response = await this.withRetry('Qdrant scroll', () =>
+			this.client.scroll(collectionName, {
+				filter: { must_not: [{ is_empty: { key: 'embeddingModel' } }] },
+				limit: 1,
+				with_payload: ['embeddingModel'],
+				with_vector: false,
+			})
+		);
+		const model = response.points[0]?.payload?.embeddingModel;
+		return typeof model === 'string' ? model : undefined;
+	}
 
-		const chunkContents = isChunkModuleUsed
-			? (chunks as Chunk[]).map((c) => c.text)
-			: (chunks as string[]);
+	/**
+	 * Re-embeds every chunk into a new collection, then points the configured name at it.
+	 * If the configured name is an alias, the swap is atomic, so queries never see a
+	 * missing or half-filled collection. If it is still a plain collection, that collection
+	 * has to be deleted before the alias can take its name, so queries fail for the moment
+	 * in between; later migrations are atomic.
+	 * Writes made to the source collection during the migration are not copied.
+	 */
+	async migrateEmbeddings(
+		embeddings: EmbeddingsModule,
+		embeddingModel: string | undefined,
+		options: EmbeddingMigrationOptions
+	): Promise<EmbeddingMigrationResult> {
+		const alias = this.config.collectionName;
+		const sourceCollection = await this.resolveCollectionName();
+		if (!sourceCollection) {
+			throw new RAGNotFoundError(`Collection '${alias}' does not exist.`, { provider: 'qdrant', operation: 'migration' });
+		}
+		const targetCollection = options.targetCollection ?? `${alias}_${Date.now()}`;
+		if (targetCollection === sourceCollection || targetCollection === alias) {
+			throw new RAGConfigurationError(`targetCollection must differ from '${sourceCollection}' and '${alias}'.`);
+		}
+		const batchSize = options.batchSize ?? MIGRATION_BATCH_SIZE;
+		if (batchSize < 1) {
+			throw new RAGConfigurationError('batchSize must be at least 1.');
+		}
 
-		// 2. Get embeddings for all chunks in one batch
-		this.logger.debug(`Generating embeddings for ${chunkContents.length} chunks...`);
-		const embeddings = await this.embeddings.embed(chunkContents);
-		this.logger.info(`Successfully generated embeddings for ${embeddings.length}/${chunkContents.length} chunks.`);
+		this.logger.info(`Migrating '${sourceCollection}' to '${targetCollection}' with embedding model '${embeddingModel ?? 'unknown'}'...`);
+		let migrated = 0;
+		try {
+			await this.createCollection(targetCollection, options.vectorSize, options.distanceMetric ?? this.config.distanceMetric);
+			// Give the new collection the same indexes (including the namespace tenant index) before it takes the alias
+			await this.reconcilePayloadIndexes(targetCollection);
+			const { count: total } = await this.withRetry('Qdrant count', () =>
+				this.client.count(sourceCollection, { exact: true })
+			);
 
-		// 3. Create points, filtering out any that failed to embed
-		const points: QdrantSchemas['PointStruct'][] = [];
-		const addedChunkIds: string[] = [];
-		for (let i = 0; i < chunkContents.length; i++) {
-			const embedding = embeddings[i];
-			if (!embedding) {
-				this.logger.warn(`Skipping chunk ${i} as it failed to produce an embedding.`);
-				continue;
-			}
-			const chunkId = uuidv4();
-			addedChunkIds.push(chunkId);
-
-			let payload: Record<string, any>;
-
-			if (isChunkModuleUsed) {
-				const chunk = chunks[i] as Chunk;
-				payload = {
-					content: chunk.text,
-					...metadata, // Include original top-level metadata
-					chunkMetadata: chunk.metadata, // Nest chunk-specific metadata
-				};
+			// 1. Copy every chunk, re-embedding its content with the new model
+			let nextPageOffset: QdrantSchemas['ScrollRequest']['offset'] | null | undefined = undefined;
+			do {
+				const response = await this.withRetry('Qdrant scroll', () =>
+					this.client.scroll(sourceCollection, {
+						limit: batchSize,
+						offset: nextPageOffset,
+						with_payload: true,
+						with_vector: false,
+					})
+				);
+				const points = response.points.filter((point) => typeof point.payload?.content === 'string');
+				if (points.length < response.points.length) {
+					this.logger.warn(`Skipping ${response.points.length - points.length} points without text content.`);
+				}
+				if (points.length > 0) {
+					const vectors = await this.withRetry<number[][]>('Embedding', () =>
+						embeddings.embed(points.map((point) => point.payload!.content as string))
+					);
+					if (vectors.length !== points.length) {
+						throw new EmbeddingError(`Embedding returned ${vectors.length} vectors for ${points.length} chunks.`, {
+							provider: 'qdrant',
+							operation: 'migration',
+						});
+					}
+					await this.withRetry('Qdrant upsert', () =>
+						this.client.upsert(targetCollection, {
+							wait: true,
+							points: points.map((point, i) => ({
+								id: point.id,
+								vector: vectors[i],
+								payload: embeddingModel ? { ...point.payload, embeddingModel } : point.payload,
+							})),
+						})
+					);
+					migrated += points.length;
+				}
+				options.onProgress?.({ migrated, total });
+				nextPageOffset = response.next_page_offset;
+			} while (nextPageOffset);
+		} catch (error) {
+			this.logger.error(`Migration to '${targetCollection}' failed; removing the partial collection.`, { error });
+			await this.client.deleteCollection(targetCollection).catch(() => undefined);
+			throw this.providerError('migration', error);
+		}
+
+		// 2. Point the alias at the new collection
+		let sourceDeleted = false;
+		try {
+			if (sourceCollection === alias) {
+				this.logger.warn(`'${alias}' is a collection, not an alias. Deleting it so the alias can take its name.`);
+				await this.withRetry('Qdrant deleteCollection', () => this.client.deleteCollection(sourceCollection));
+				sourceDeleted = true;
+				await this.withRetry('Qdrant updateCollectionAliases', () =>
+					this.client.updateCollectionAliases({
+						actions: [{ create_alias: { collection_name: targetCollection, alias_name: alias } }],
+					})
+				);
 			} else {
-				payload = {
-					...metadata,
-					content: chunkContents[i],
-					chunkIndex: i,
-				};
+				await this.withRetry('Qdrant updateCollectionAliases', () =>
+					this.client.updateCollectionAliases({
+						actions: [
+							{ delete_alias: { alias_name: alias } },
+							{ create_alias: { collection_name: targetCollection, alias_name: alias } },
+						],
+					})
+				);
+				if (options.deleteSource) {
+					await this.withRetry('Qdrant deleteCollection', () => this.client.deleteCollection(sourceCollection));
+					sourceDeleted = true;
+				}
 			}
-
-			points.push({
-				id: chunkId,
-				vector: embedding,
-				payload: payload,
-			});
+		} catch (error) {
+			this.logger.error(`Failed to point alias '${alias}' at '${targetCollection}':`, { error });
+			throw this.providerError('alias swap', error);
 		}
 
-		if (points.length === 0) {
-			this.logger.warn('All chunks failed to produce embeddings. Nothing to upsert.');
-			return [];
+		this.embeddings = embeddings;
+		this.embeddingModel = embeddingModel;
+		this.keywordIndexReady = false;
+		this.config = {
+			...this.config,
+			vectorSize: options.vectorSize,
+			distanceMetric: options.distanceMetric ?? this.config.distanceMetric,
+		};
+		this.logger.info(`Migrated ${migrated} chunks; alias '${alias}' now points to '${targetCollection}'.`);
+		return { alias, sourceCollection, targetCollection, embeddingModel, migrated, sourceDeleted };
+	}
+
+	protected async storePoints(points: VectorPoint[]): Promise<void> {
+		await this.upsertPoints(points);
+	}
+
+	/**
+	 * Imports snapshot points as they are, so integer point IDs stay integers.
+	 */
+	async importPoints(points: StoredPoint[]): Promise<void> {
+		if (points.length > 0) {
+			await this.upsertPoints(points);
 		}
+	}
 
-		// 4. Upsert points to Qdrant
+	private async upsertPoints(points: StoredPoint[]): Promise<void> {
 		try {
 			this.logger.debug(`Upserting ${points.length} points to collection '${this.config.collectionName}'...`);
 			for (let i = 0; i < points.length; i += BATCH_SIZE) {
-				await this.client.upsert(this.config.collectionName, {
-					wait: true,
-					points: points.slice(i, i + BATCH_SIZE),
-				});
+				// Each batch is retried on its own; re-sending a batch is safe since upserts are idempotent by ID
+				await this.withRetry('Qdrant upsert', () =>
+					this.client.upsert(this.config.collectionName, {
+						wait: true,
+						points: points.slice(i, i + BATCH_SIZE),
+					})
+				);
 			}
 			this.logger.info(`Successfully upserted ${points.length} points.`);
-			return addedChunkIds;
 		} catch (error) {
 			this.logger.error('Error upserting points to Qdrant:', { error: JSON.stringify(error, null, 2) });
-			throw new Error(`Qdrant upsert failed: ${error instanceof Error ? error.message : String(error)}`);
+			throw this.providerError('upsert', error);
+		}
+	}
+
+	protected async findVectorsByChunkHash(hashes: string[]): Promise<Map<string, number[]>> {
+		const found = new Map<string, number[]>();
+		if (hashes.length === 0) {
+			return found;
+		}
+
+		try {
+			let nextPageOffset: QdrantSchemas['ScrollRequest']['offset'] | null | undefined = undefined;
+			do {
+				const response = await this.withRetry('Qdrant scroll', () =>
+					this.client.scroll(this.config.collectionName, {
+						filter: {
+						must: [
+							{ key: 'chunkHash', match: { any: hashes } },
+							// Vectors from another embedding model are not comparable
+							...(this.embeddingModel ? [{ key: 'embeddingModel', match: { value: this.embeddingModel } }] : []),
+						],
+					},
+						limit: 250,
+						offset: nextPageOffset,
+						with_payload: ['chunkHash'],
+						with_vector: true,
+					})
+				);
+				for (const point of response.points) {
+					const hash = point.payload?.chunkHash as string | undefined;
+					if (hash && !found.has(hash) && Array.isArray(point.vector)) {
+						found.set(hash, point.vector as number[]);
+					}
+				}
+				nextPageOffset = response.next_page_offset;
+			} while (nextPageOffset && found.size < hashes.length);
+			return found;
+		} catch (error) {
+			this.logger.error('Error looking up existing chunk hashes in Qdrant:', { error });
+			throw this.providerError('chunk hash lookup', error);
+		}
+	}
+
+	protected async listDocumentChunkIds(documentId: string, namespace?: string): Promise<string[]> {
+		const namespaceCondition: QdrantSchemas['Condition'] =
+			namespace === undefined
+				? { is_empty: { key: NAMESPACE_KEY } }
+				: { key: NAMESPACE_KEY, match: { value: namespace } };
+		try {
+			const ids: string[] = [];
+			let nextPageOffset: QdrantSchemas['ScrollRequest']['offset'] | null | undefined = undefined;
+			do {
+				const response = await this.withRetry('Qdrant scroll', () =>
+					this.client.scroll(this.config.collectionName, {
+						filter: { must: [{ key: 'sourceId', match: { value: documentId } }, namespaceCondition] },
+						limit: 250,
+						offset: nextPageOffset,
+						with_payload: false,
+						with_vector: false,
+					})
+				);
+				ids.push(...response.points.map((point) => String(point.id)));
+				nextPageOffset = response.next_page_offset;
+			} while (nextPageOffset);
+			return ids;
+		} catch (error) {
+			this.logger.error(`Error listing chunks of document '${documentId}':`, { error });
+			throw this.providerError('scroll', error);
 		}
 	}
 
 	async retrieveContext(queryText: string, options: RetrievalOptions = {}): Promise<RetrievedChunk[]> {
 		this.logger.debug(`Retrieving context for query: "${queryText.substring(0, 50)}..." with options:`, options);
 		// 1. Get query embedding
-		const [queryVector] = await this.embeddings.embed(queryText);
+		const [queryVector] = await this.embed(queryText);
 		if (!queryVector) {
-			throw new Error('Failed to generate embedding for the query text.');
+			throw new EmbeddingError('Failed to generate embedding for the query text.', { provider: 'qdrant', operation: 'search' });
 		}
 
 		// 2. Search Qdrant
 		try {
-			const searchResult = await this.client.search(this.config.collectionName, {
-				vector: queryVector,
-				limit: options.limit ?? 5, // Use provided limit or default
-				score_threshold: options.scoreThreshold, // Use provided threshold if any
-				// filter: options.filter, // TODO: Add filter conversion if needed
-				with_payload: true, // Crucial to get the content back
-				with_vector: false, // Usually don't need the vector itself back
-			});
+			const searchResult = await this.withRetry('Qdrant search', () =>
+				this.client.search(this.config.collectionName, {
+					vector: queryVector,
+					limit: options.limit ?? 5, // Use provided limit or default
+					score_threshold: options.scoreThreshold, // Use provided threshold if any
+					filter: toQdrantFilter(options.filter), // Restrict search to matching payloads
+					with_payload: true, // Crucial to get the content back
+					with_vector: options.includeVectors ?? false, // Only needed for diversification or on request
+				})
+			);
 
 			this.logger.debug(`Qdrant search returned ${searchResult.length} results.`);
 
 			// 3. Map results to RetrievedChunk format
-			const retrievedChunks: RetrievedChunk[] = searchResult.map((point) => {
-				const payload = point.payload as Record<string, any> | undefined;
-				const content = payload?.content as string ?? ''; // Extract content
-				// Prepare metadata, excluding the content field itself
-				const metadata = { ...payload };
-				delete metadata.content;
-
-				return {
-					content: content,
-					score: point.score,
-					metadata: Object.keys(metadata).length > 0 ? metadata : undefined,
-				};
-			});
+			const retrievedChunks: RetrievedChunk[] = searchResult.map((point) =>
+				payloadToRetrievedChunk(
+					point.payload as Record<string, any> | undefined,
+					point.score,
+					point.id,
+					point.vector as number[] | undefined // Single unnamed vector per collection
+				)
+			);
 
 			return retrievedChunks;
 		} catch (error) {
 			this.logger.error('Error searching Qdrant:', { error });
-			throw new Error(`Qdrant search failed: ${error instanceof Error ? error.message : String(error)}`);
+			throw this.providerError('search', error);
 		}
 	}
 
-	async getDocumentsByMetadata(filter: Record<string, any>): Promise<any[]> {
+	/**
+	 * Ranks chunks by BM25 computed locally over candidates fetched from Qdrant.
+	 * Document frequencies come from exact counts of chunks whose `content` matches each
+	 * query term. Candidates are fetched term by term, rarest first, until KEYWORD_CANDIDATE_LIMIT
+	 * chunks are collected, so when the limit cuts candidates off, the chunks left out only match
+	 * the more common terms. Terms found in more than half of the chunks (e.g., 'what', 'in')
+	 * still count towards scores but do not select candidates, unless every term is that common.
+	 * Requires a `text` payload index on `content` (see `payloadIndexes`).
+	 */
+	async keywordSearch(queryText: string, options: RetrievalOptions = {}): Promise<RetrievedChunk[]> {
+		this.logger.debug(`Keyword search for query: "${queryText.substring(0, 50)}..." with options:`, options);
+		const queryTerms = uniqueTerms(queryText);
+		if (queryTerms.length === 0) {
+			return [];
+		}
+		await this.assertKeywordIndex();
+
+		const scopeFilter = toQdrantFilter(options.filter);
+		const scopeConditions: QdrantSchemas['Condition'][] = scopeFilter ? [scopeFilter] : [];
+		const termCondition = (term: string): QdrantSchemas['Condition'] => ({
+			key: 'content',
+			match: { text: term },
+		});
+
+		try {
+			// 1. Corpus statistics within the filtered scope
+			const { count: documentCount } = await this.withRetry('Qdrant count', () =>
+				this.client.count(this.config.collectionName, {
+					filter: scopeFilter,
+					exact: true,
+				})
+			);
+			const documentFrequency = new Map<string, number>();
+			for (const term of queryTerms) {
+				const { count } = await this.withRetry('Qdrant count', () =>
+					this.client.count(this.config.collectionName, {
+						filter: { must: [...scopeConditions, termCondition(term)] },
+						exact: true,
+					})
+				);
+				documentFrequency.set(term, count);
+			}
+
+			// 2. Fetch candidate chunks term by term, rarest first, skipping chunks already fetched
+			const matchedTerms = queryTerms
+				.filter((term) => documentFrequency.get(term)! > 0)
+				.sort((a, b) => documentFrequency.get(a)! - documentFrequency.get(b)!);
+			const selectiveTerms = matchedTerms.filter((term) => documentFrequency.get(term)! <= documentCount * COMMON_TERM_RATIO);
+			const candidateTerms = selectiveTerms.length > 0 ? selectiveTerms : matchedTerms.slice(0, 1);
+			const candidates: QdrantSchemas['Record'][] = [];
+			for (const term of candidateTerms) {
+				const fetched = candidates.map((point) => point.id);
+				let nextPageOffset: QdrantSchemas['ScrollRequest']['offset'] | null | undefined = undefined;
+				do {
+					const response = await this.withRetry('Qdrant scroll', () =>
+						this.client.scroll(this.config.collectionName, {
+							filter: {
+								must: [...scopeConditions, termCondition(term)],
+								must_not: fetched.length > 0 ? [{ has_id: fetched }] : undefined,
+							},
+							limit: Math.min(250, KEYWORD_CANDIDATE_LIMIT - candidates.length),
+							offset: nextPageOffset,
+							with_payload: true,
+							with_vector: options.includeVectors ?? false,
+						})
+					);
+					candidates.push(...response.points);
+					nextPageOffset = response.next_page_offset;
+				} while (nextPageOffset && candidates.length < KEYWORD_CANDIDATE_LIMIT);
+				if (candidates.length >= KEYWORD_CANDIDATE_LIMIT) {
+					this.logger.debug(`Keyword search reached the ${KEYWORD_CANDIDATE_LIMIT}-candidate limit at term '${term}'.`);
+					break;
+				}
+			}
+
+			// 3. Score candidates locally. Average length is estimated from the candidate set.
+			const tokenized = candidates.map((point) => tokenize(String(point.payload?.content ?? '')));
+			const stats = {
+				...buildCorpusStats(tokenized),
+				documentCount,
+				documentFrequency,
+			};
+
+			const results = candidates
+				.map((point, i) => ({ point, score: bm25Score(queryTerms, tokenized[i], stats) }))
+				.filter(({ score }) => score > 0)
+				.sort((a, b) => b.score - a.score)
+				.slice(0, options.limit ?? 5);
+			this.logger.debug(`Keyword search scored ${candidates.length} candidates, returning ${results.length}.`);
+
+			return results.map(({ point, score }) =>
+				payloadToRetrievedChunk(
+					point.payload as Record<string, any> | undefined,
+					score,
+					point.id,
+					point.vector as number[] | undefined
+				)
+			);
+		} catch (error) {
+			this.logger.error('Error during Qdrant keyword search:', { error });
+			throw this.providerError('keyword search', error);
+		}
+	}
+
+	/**
+	 * Checks that `content` has a full-text index. Without one, Qdrant evaluates a text match
+	 * as a case-sensitive substring match, so `ERR_TIMEOUT` would never match and `lab` would
+	 * match `label`.
+	 */
+	private async assertKeywordIndex(): Promise<void> {
+		if (this.keywordIndexReady) {
+			return;
+		}
+		const indexes = await this.listPayloadIndexes();
+		if (!indexes.some((index) => index.field === 'content' && index.type === 'text')) {
+			throw new RAGConfigurationError(
+				"Keyword and hybrid search on Qdrant require a 'text' payload index on 'content'. Add { field: 'content', type: 'text' } to qdrantConfig.payloadIndexes or call createPayloadIndex('content', 'text').",
+				{ provider: 'qdrant', operation: 'keyword search' }
+			);
+		}
+		this.keywordIndexReady = true;
+	}
+
+	async getDocumentsByMetadata(filter: MetadataFilter): Promise<any[]> {
 		this.logger.debug('Getting all documents by metadata filter:', { filter });
 
 		const allPoints: QdrantSchemas['Record'][] = [];
@@ -247,18 +693,15 @@ export class QdrantProvider implements RAGProviderInterface {
 
 		try {
 			do {
-				const response = await this.client.scroll(this.config.collectionName, {
-					filter: {
-						must: Object.entries(filter).map(([key, value]) => ({
-							key: key,
-							match: { value: value },
-						})),
-					},
-					limit: 250, // Sensible page size
-					offset: nextPageOffset,
-					with_payload: true,
-					with_vector: true,
-				});
+				const response = await this.withRetry('Qdrant scroll', () =>
+					this.client.scroll(this.config.collectionName, {
+						filter: toQdrantFilter(filter),
+						limit: 250, // Sensible page size
+						offset: nextPageOffset,
+						with_payload: true,
+						with_vector: true,
+					})
+				);
 
 				if (response.points.length > 0) {
 					allPoints.push(...response.points);
@@ -278,72 +721,167 @@ export class QdrantProvider implements RAGProviderInterface {
 
 		} catch (error) {
 			this.logger.error('Error scrolling through Qdrant points:', { error });
-			throw new Error(`Qdrant scroll failed: ${error instanceof Error ? error.message : String(error)}`);
+			throw this.providerError('scroll', error);
+		}
+	}
+
+	/**
+	 * Lists matching points in ID order with a single scroll request; the cursor wraps Qdrant's next page offset.
+	 */
+	async listPoints(options: PointListOptions): Promise<PointPage> {
+		const withVectors = options.withVectors ?? false;
+		try {
+			const offset = options.cursor === undefined ? undefined : decodeCursor(options.cursor);
+			const response = await this.withRetry('Qdrant scroll', () =>
+				this.client.scroll(this.config.collectionName, {
+					filter: toQdrantFilter(options.filter),
+					limit: options.pageSize ?? DEFAULT_PAGE_SIZE,
+					offset,
+					with_payload: options.fields ?? true,
+					with_vector: withVectors,
+				})
+			);
+			const next = response.next_page_offset;
+			return {
+				records: response.points.map((point) =>
+					payloadToPointRecord(point.id, point.payload, withVectors ? (point.vector as number[]) : undefined)
+				),
+				nextCursor: typeof next === 'string' || typeof next === 'number' ? encodeCursor(next) : undefined,
+			};
+		} catch (error) {
+			this.logger.error('Error listing Qdrant points:', { error });
+			throw this.providerError('scroll', error);
+		}
+	}
+
+	async countPoints(filter?: MetadataFilter): Promise<number> {
+		try {
+			const { count } = await this.withRetry('Qdrant count', () =>
+				this.client.count(this.config.collectionName, {
+					filter: toQdrantFilter(filter),
+					exact: true,
+				})
+			);
+			return count;
+		} catch (error) {
+			this.logger.error('Error counting Qdrant points:', { error });
+			throw this.providerError('count', error);
+		}
+	}
+
+	async getStats(): Promise<ProviderStats> {
+		try {
+			const collectionName = (await this.resolveCollectionName()) ?? this.config.collectionName;
+			const info = await this.withRetry('Qdrant getCollection', () => this.client.getCollection(collectionName));
+			const vectors = info.config.params.vectors as QdrantSchemas['VectorsConfig'] | undefined;
+			return {
+				storageName: collectionName,
+				pointCount: info.points_count ?? 0,
+				indexedVectorCount: info.indexed_vectors_count ?? undefined,
+				vectorSize: typeof vectors?.size === 'number' ? vectors.size : undefined,
+				distanceMetric: (vectors?.distance as QdrantDistanceMetric | undefined) ?? this.config.distanceMetric,
+				indexStatus: info.status,
+				optimizerError: typeof info.optimizer_status === 'object' ? info.optimizer_status.error : undefined,
+				payloadIndexes: payloadIndexesOf(info),
+			};
+		} catch (error) {
+			this.logger.error('Error getting Qdrant collection stats:', { error });
+			throw this.providerError('stats', error);
+		}
+	}
+
+	/**
+	 * Fetches the collection info once, without retries, so an outage is reported promptly.
+	 */
+	async ping(): Promise<void> {
+		try {
+			await this.client.getCollection(this.config.collectionName);
+		} catch (error) {
+			throw this.providerError('health check', error);
 		}
 	}
 
-	async deleteDocumentsByIds(ids: string[]): Promise<void> {
+	async *exportPoints(batchSize: number): AsyncIterable<StoredPoint[]> {
+		let nextPageOffset: QdrantSchemas['ScrollRequest']['offset'] | null | undefined = undefined;
+		do {
+			let response: Awaited<ReturnType<QdrantClient['scroll']>>;
+			try {
+				response = await this.withRetry('Qdrant scroll', () =>
+					this.client.scroll(this.config.collectionName, {
+						limit: batchSize,
+						offset: nextPageOffset,
+						with_payload: true,
+						with_vector: true,
+					})
+				);
+			} catch (error) {
+				this.logger.error('Error scrolling through Qdrant points for export:', { error });
+				throw this.providerError('export', error);
+			}
+			yield response.points.map((point) => ({
+				id: point.id,
+				vector: point.vector as number[],
+				payload: point.payload ?? {},
+			}));
+			nextPageOffset = response.next_page_offset;
+		} while (nextPageOffset);
+	}
+
+	async deleteDocumentsByIds(ids: string[], filter?: MetadataFilter): Promise<void> {
 		if (!ids || ids.length === 0) {
 			this.logger.warn('No IDs provided for deletion.');
 			return;
 		}
 		this.logger.info(`Attempting to delete ${ids.length} documents by ID from collection '${this.config.collectionName}'.`);
+		const qdrantFilter = toQdrantFilter(filter);
 		try {
-			await this.client.delete(this.config.collectionName, {
-				points: ids,
-				wait: true, // Wait for operation to complete
-			});
+			await this.withRetry('Qdrant delete', () =>
+				// With a filter, only the IDs that also match it are deleted
+				this.client.delete(
+					this.config.collectionName,
+					qdrantFilter
+						? { filter: { must: [{ has_id: ids }, qdrantFilter] }, wait: true }
+						: { points: ids, wait: true } // Wait for operation to complete
+				)
+			);
 			this.logger.info(`Successfully deleted ${ids.length} documents by ID.`);
 		} catch (error) {
 			this.logger.error(`Error deleting documents by ID from Qdrant collection '${this.config.collectionName}':`, { error });
-			throw new Error(`Qdrant deletion by ID failed: ${error instanceof Error ? error.message : String(error)}`);
+			throw this.providerError('deletion by ID', error);
 		}
 	}
 
-	async deleteDocumentsByMetadata(filter: Record<string, any>): Promise<void> {
-		if (!filter || Object.keys(filter).length === 0) {
+	async deleteDocumentsByMetadata(filter: MetadataFilter): Promise<void> {
+		const qdrantFilter = toQdrantFilter(filter);
+		if (!qdrantFilter) {
 			this.logger.warn('No filter provided for deletion by metadata.');
 			return;
 		}
 		this.logger.info(`Attempting to delete documents matching filter from collection '${this.config.collectionName}':`, { filter });
 
-		// Convert simple key-value filter to Qdrant filter structure
-		// This assumes a logical AND ('must') for all conditions
-		const conditions: QdrantSchemas['Condition'][] = Object.entries(filter).map(
-			([key, value]) => ({
-				key: key,
-				match: {
-					// Qdrant 'match' works for keyword, integer, bool.
-					// Might need refinement for text matching or other types.
-					value: value,
-				},
-			})
-		);
-
-		// Create the filter object, using type assertion to bypass strict check
-		const qdrantFilter = {
-			must: conditions,
-		} as any as QdrantSchemas['Filter']; // Assert type
-
 		try {
-			// Pass the asserted filter object
-			await this.client.delete(this.config.collectionName, {
-				filter: qdrantFilter,
-				wait: true,
-			});
+			await this.withRetry('Qdrant delete', () =>
+				this.client.delete(this.config.collectionName, {
+					filter: qdrantFilter,
+					wait: true,
+				})
+			);
 			this.logger.info(`Successfully submitted deletion request for documents matching filter.`);
 			// Note: Qdrant deletion by filter is async internally, 'wait:true' ensures the operation is queued.
 			// We don't get a direct count of deleted items here.
 		} catch (error) {
 			this.logger.error(`Error deleting documents by metadata filter from Qdrant collection '${this.config.collectionName}':`, { error });
-			throw new Error(`Qdrant deletion by filter failed: ${error instanceof Error ? error.message : String(error)}`);
+			throw this.providerError('deletion by filter', error);
 		}
 	}
 
 	async deleteStorage(): Promise<void> {
 		this.logger.warn(`Attempting to delete Qdrant collection '${this.config.collectionName}'...`);
+		this.keywordIndexReady = false;
 		try {
-			const result = await this.client.deleteCollection(this.config.collectionName);
+			// When the configured name is an alias, delete the collection behind it
+			const collectionName = (await this.resolveCollectionName()) ?? this.config.collectionName;
+			const result = await this.withRetry('Qdrant deleteCollection', () => this.client.deleteCollection(collectionName));
 			if (result) {
 				this.logger.info(`Successfully deleted collection '${this.config.collectionName}'.`);
 			} else {
@@ -353,10 +891,10 @@ export class QdrantProvider implements RAGProviderInterface {
 		} catch (error) {
 			this.logger.error(`Error deleting Qdrant collection '${this.config.collectionName}':`, { error });
 			// Don't throw if error is "Not Found", otherwise rethrow
-			if (error instanceof Error && /not found/i.test(error.message)) {
+			if (isNotFoundError(error)) {
 				this.logger.warn(`Collection '${this.config.collectionName}' was not found during deletion, which is acceptable.`);
 			} else {
-				throw new Error(`Qdrant collection deletion failed: ${error instanceof Error ? error.message : String(error)}`);
+				throw this.providerError('collection deletion', error);
 			}
 		}
 	}
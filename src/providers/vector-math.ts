@@ -0,0 +1,97 @@
+import { QdrantDistanceMetric } from '../types';
+import { RAGConfigurationError } from '../errors';
+
+/**
+ * Computes the dot product of two vectors of equal length.
+ */
+export function dotProduct(a: number[], b: number[]): number {
+	let sum = 0;
+	for (let i = 0; i < a.length; i++) {
+		sum += a[i] * b[i];
+	}
+	return sum;
+}
+
+/**
+ * Computes the cosine similarity of two vectors. Returns 0 if either vector has zero magnitude.
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+	const normA = Math.sqrt(dotProduct(a, a));
+	const normB = Math.sqrt(dotProduct(b, b));
+	if (normA === 0 || normB === 0) {
+		return 0;
+	}
+	return dotProduct(a, b) / (normA * normB);
+}
+
+/**
+ * Computes the Euclidean distance between two vectors.
+ */
+export function euclideanDistance(a: number[], b: number[]): number {
+	let sum = 0;
+	for (let i = 0; i < a.length; i++) {
+		const diff = a[i] - b[i];
+		sum += diff * diff;
+	}
+	return Math.sqrt(sum);
+}
+
+/**
+ * Scores a stored vector against a query vector using the given metric.
+ * Mirrors Qdrant's semantics: 'Cosine' and 'Dot' return similarities (higher is better),
+ * while 'Euclid' returns a distance (lower is better).
+ */
+export function scoreVector(metric: QdrantDistanceMetric, query: number[], vector: number[]): number {
+	switch (metric) {
+		case 'Cosine':
+			return cosineSimilarity(query, vector);
+		case 'Dot':
+			return dotProduct(query, vector);
+		case 'Euclid':
+			return euclideanDistance(query, vector);
+		default:
+			throw new RAGConfigurationError(`Unsupported distance metric: ${metric}`);
+	}
+}
+
+/**
+ * Returns true if lower scores are better for the given metric (i.e., it is a distance).
+ */
+export function isDistanceMetric(metric: QdrantDistanceMetric): boolean {
+	return metric === 'Euclid';
+}
+
+/**
+ * Returns the element-wise mean of equally sized vectors.
+ */
+export function meanVector(vectors: number[][]): number[] {
+	const mean = new Array<number>(vectors[0]?.length ?? 0).fill(0);
+	for (const vector of vectors) {
+		vector.forEach((value, i) => {
+			mean[i] += value / vectors.length;
+		});
+	}
+	return mean;
+}
+
+/**
+ * Returns true if `score` passes `threshold` for the given metric.
+ * For similarities the score must be at least the threshold; for distances, at most.
+ */
+export function passesScoreThreshold(
+	metric: QdrantDistanceMetric,
+	score: number,
+	threshold?: number
+): boolean {
+	if (threshold === undefined) {
+		return true;
+	}
+	return isDistanceMetric(metric) ? score <= threshold : score >= threshold;
+}
+
+/**
+ * Compares two scores so that sorting with this comparator puts the best match first.
+ */
+export function compareScores(metric: QdrantDistanceMetric, a: number, b: number): number {
+	return isDistanceMetric(metric) ? a - b : b - a;
+}
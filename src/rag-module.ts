@@ -1,5 +1,5 @@
 import { ConsoleLogger, LoggerInterface } from 'ubc-genai-toolkit-core';
-import { EmbeddingsModule } from 'ubc-genai-toolkit-embeddings';
+import { EmbeddingsConfig, EmbeddingsModule } from 'ubc-genai-toolkit-embeddings';
 import { ChunkingModule } from 'ubc-genai-toolkit-chunking';
 import {
 	RAGConfig,
@@ -7,21 +7,147 @@ import {
 	RetrievedChunk,
 	RetrievalOptions,
 	RAGProviderInterface,
+	MetadataFilter,
+	FilterExpression,
+	QdrantDistanceMetric,
+	QdrantConfig,
+	DocumentUpsertReport,
+	DocumentInput,
+	BatchIngestOptions,
+	BatchIngestResult,
+	DocumentIngestFailure,
+	EmbeddingMigrationOptions,
+	EmbeddingMigrationResult,
+	PayloadIndexInfo,
+	PayloadIndexType,
+	ContextBuildOptions,
+	BuiltContext,
+	EmbeddingCache,
+	EmbeddingCacheStats,
+	SnapshotHeader,
+	SnapshotOptions,
+	SnapshotResult,
+	PointListOptions,
+	PointPage,
+	PointRecord,
+	DocumentListOptions,
+	DocumentSummary,
+	StoredDocument,
+	StatsOptions,
+	StorageStats,
+	HealthCheckOptions,
+	HealthReport,
+	ComponentHealth,
+	MetadataSchema,
 } from './types';
 import { QdrantProvider } from './providers/qdrant-provider';
+import { MemoryProvider } from './providers/memory-provider';
+import { FileProvider } from './providers/file-provider';
+import { MetadataValidationError, RAGConfigurationError, RAGError, VectorDimensionMismatchError } from './errors';
+import { withRetry } from './retry';
+import { NamespacedRAGModule } from './namespaced-rag-module';
+import { reciprocalRankFusion, weightedScoreFusion } from './retrieval/fusion';
+import { limitPerDocument, maximalMarginalRelevance } from './retrieval/diversity';
+import { buildContext } from './retrieval/context-builder';
+import { expandWithNeighbors } from './retrieval/neighbors';
+import { resolveParents } from './retrieval/parents';
+import { normalizeFilter } from './filters';
+import { IS_PARENT_KEY, NAMESPACE_KEY, RESERVED_METADATA_KEYS, defaultSimpleChunker } from './providers/document-chunker';
+import { MemoryEmbeddingCache } from './caches/memory-embedding-cache';
+import { SNAPSHOT_FORMAT, SNAPSHOT_VERSION, readSnapshot, writeSnapshot } from './snapshot';
+import { DOCUMENT_FIELDS, readDocument, summarizeDocuments, withDocument } from './document-registry';
 
-export class RAGModule implements RAGModuleInterface {
+const PAYLOAD_INDEX_TYPES: PayloadIndexType[] = ['keyword', 'integer', 'float', 'bool', 'datetime', 'text', 'uuid', 'geo'];
+const DEFAULT_PARENT_CHUNK_SIZE = 2000;
+const DEFAULT_SNAPSHOT_BATCH_SIZE = 256;
+const DEFAULT_HEALTH_CHECK_TIMEOUT_MS = 5000;
+const HEALTH_CHECK_TEXT = 'health check';
+
+/**
+ * Returns the identity stamped on stored chunks for an embedding model:
+ * the explicit ID if given, otherwise `<provider>/<model>`.
+ */
+function embeddingModelIdentity(embeddingsConfig?: EmbeddingsConfig, embeddingModelId?: string): string | undefined {
+	if (embeddingModelId) {
+		return embeddingModelId;
+	}
+	const parts = [embeddingsConfig?.provider, embeddingsConfig?.model].filter(Boolean);
+	return parts.length > 0 ? parts.join('/') : undefined;
+}
+
+/**
+ * Adds a full-text index on `content` to the Qdrant payload indexes when keyword or hybrid
+ * search is the default or hybrid search is configured, since Qdrant keyword search needs it.
+ */
+function withKeywordSearchIndex(config: RAGConfig): QdrantConfig | undefined {
+	const qdrantConfig = config.qdrantConfig;
+	const usesKeywords = config.defaultRetrievalMode === 'keyword' || config.defaultRetrievalMode === 'hybrid' || !!config.hybridSearch;
+	if (!qdrantConfig || !usesKeywords || qdrantConfig.payloadIndexes?.some((index) => index.field === 'content')) {
+		return qdrantConfig;
+	}
+	return { ...qdrantConfig, payloadIndexes: [...(qdrantConfig.payloadIndexes ?? []), { field: 'content', type: 'text' }] };
+}
+
+/**
+ * Restricts a filter to searchable chunks, excluding parent sections stored by hierarchical indexing.
+ */
+function excludeParents(filter?: MetadataFilter): FilterExpression {
+	const notParent: FilterExpression = { op: 'not', filter: { op: 'eq', key: IS_PARENT_KEY, value: true } };
+	const normalized = normalizeFilter(filter);
+	return normalized ? { op: 'and', filters: [notParent, normalized] } : notParent;
+}
+
+/**
+ * Runs a dependency check, reporting its latency and any failure instead of throwing.
+ * A check still pending after `timeoutMs` is reported as failed.
+ */
+async function timedCheck(check: () => Promise<unknown>, timeoutMs: number): Promise<ComponentHealth> {
+	const started = Date.now();
+	let timer: NodeJS.Timeout | undefined;
+	try {
+		await Promise.race([
+			check(),
+			new Promise((_, reject) => {
+				timer = setTimeout(() => reject(new Error(`Timed out after ${timeoutMs} ms.`)), timeoutMs);
+			}),
+		]);
+		return { healthy: true, latencyMs: Date.now() - started };
+	} catch (error) {
+		return { healthy: false, latencyMs: Date.now() - started, error: error instanceof Error ? error.message : String(error) };
+	} finally {
+		clearTimeout(timer);
+	}
+}
+
+/**
+ * Restricts a filter to chunks outside any namespace. Document lookups on the root module
+ * use it, so a tenant's document never shadows a root document with the same ID.
+ */
+function withoutNamespace(filter?: MetadataFilter): FilterExpression {
+	const rootOnly: FilterExpression = { op: 'not', filter: { op: 'exists', key: NAMESPACE_KEY } };
+	const normalized = normalizeFilter(filter);
+	return normalized ? { op: 'and', filters: [rootOnly, normalized] } : rootOnly;
+}
+
+function withoutVector({ vector, ...chunk }: RetrievedChunk): RetrievedChunk {
+	return chunk.matchedChunks ? { ...chunk, matchedChunks: chunk.matchedChunks.map(withoutVector) } : chunk;
+}
+
+export class RAGModule<TMetadata extends Record<string, any> = Record<string, any>> implements RAGModuleInterface<TMetadata> {
 	private config: RAGConfig;
+	private metadataSchema?: MetadataSchema<TMetadata>;
 	private logger: LoggerInterface;
 	private embeddingsModule!: EmbeddingsModule;
 	private chunkingModule?: ChunkingModule;
 	private customChunker?: (content: string) => string[];
 	private ragProvider!: RAGProviderInterface;
+	private embeddingCache?: EmbeddingCache;
 	private isInitialized = false;
 
 	// Private constructor to enforce initialization via static create method
-	private constructor(config: RAGConfig) {
+	private constructor(config: RAGConfig<TMetadata>) {
 		this.config = this.validateAndBuildConfig(config);
+		this.metadataSchema = config.metadataSchema;
 		this.logger = config.logger ?? new ConsoleLogger('RAGModule');
 		if (this.config.debug) {
 			this.logger.debug('RAGModule configuration:', this.config);
@@ -33,11 +159,11 @@ export class RAGModule implements RAGModuleInterface {
 	 */
 	private validateAndBuildConfig(config: RAGConfig): RAGConfig {
 		if (!config.provider) {
-			throw new Error('RAG provider type must be specified in config.');
+			throw new RAGConfigurationError('RAG provider type must be specified in config.');
 		}
 
 		if (config.provider === 'qdrant' && !config.qdrantConfig) {
-			throw new Error('qdrantConfig must be provided when provider is qdrant.');
+			throw new RAGConfigurationError('qdrantConfig must be provided when provider is qdrant.');
 		}
 
 		if (
@@ -45,7 +171,7 @@ export class RAGModule implements RAGModuleInterface {
 			config.qdrantConfig &&
 			!config.qdrantConfig.collectionName
 		) {
-			throw new Error('qdrantConfig.collectionName must be specified.');
+			throw new RAGConfigurationError('qdrantConfig.collectionName must be specified.');
 		}
 
 		if (
@@ -53,7 +179,7 @@ export class RAGModule implements RAGModuleInterface {
 			config.qdrantConfig &&
 			config.qdrantConfig.vectorSize === undefined // Check for undefined explicitly
 		) {
-			throw new Error('qdrantConfig.vectorSize must be specified.');
+			throw new RAGConfigurationError('qdrantConfig.vectorSize must be specified.');
 		}
 
 		if (
@@ -61,17 +187,74 @@ export class RAGModule implements RAGModuleInterface {
 			config.qdrantConfig &&
 			!config.qdrantConfig.distanceMetric
 		) {
-			throw new Error('qdrantConfig.distanceMetric must be specified.');
+			throw new RAGConfigurationError('qdrantConfig.distanceMetric must be specified.');
+		}
+
+		if (config.provider === 'file' && !config.fileConfig?.directory) {
+			throw new RAGConfigurationError('fileConfig.directory must be specified when provider is file.');
+		}
+
+		if (config.provider !== 'qdrant' && config.provider !== 'memory' && config.provider !== 'file') {
+			throw new RAGConfigurationError(`Unsupported RAG provider: ${config.provider}`);
+		}
+
+		if (config.hybridSearch) {
+			const { fusion, vectorWeight, keywordWeight, candidateMultiplier } = config.hybridSearch;
+			if (fusion !== undefined && fusion !== 'rrf' && fusion !== 'weighted') {
+				throw new RAGConfigurationError(`Unsupported hybridSearch.fusion: ${fusion}`);
+			}
+			if ((vectorWeight ?? 0) < 0 || (keywordWeight ?? 0) < 0) {
+				throw new RAGConfigurationError('hybridSearch weights must not be negative.');
+			}
+			if (candidateMultiplier !== undefined && candidateMultiplier < 1) {
+				throw new RAGConfigurationError('hybridSearch.candidateMultiplier must be at least 1.');
+			}
+		}
+
+		if (config.parentChunking && typeof config.parentChunking !== 'function') {
+			const { chunkSize = DEFAULT_PARENT_CHUNK_SIZE, overlap = 0 } = config.parentChunking;
+			if (chunkSize < 1 || overlap < 0 || overlap >= chunkSize) {
+				throw new RAGConfigurationError('parentChunking requires chunkSize of at least 1 and 0 <= overlap < chunkSize.');
+			}
+		}
+
+		if (config.defaultRerankCandidates !== undefined && config.defaultRerankCandidates < 1) {
+			throw new RAGConfigurationError('defaultRerankCandidates must be at least 1.');
+		}
+
+		const onSchemaMismatch = config.qdrantConfig?.onSchemaMismatch;
+		if (onSchemaMismatch !== undefined && !['fail', 'warn', 'recreate'].includes(onSchemaMismatch)) {
+			throw new RAGConfigurationError(`Unsupported qdrantConfig.onSchemaMismatch: ${onSchemaMismatch}`);
+		}
+
+		for (const index of config.qdrantConfig?.payloadIndexes ?? []) {
+			if (!index.field || !PAYLOAD_INDEX_TYPES.includes(index.type)) {
+				throw new RAGConfigurationError(`Invalid qdrantConfig.payloadIndexes entry: field '${index.field}', type '${index.type}'.`);
+			}
+		}
+
+		if (config.retry) {
+			const { maxAttempts, initialDelayMs, maxDelayMs, backoffMultiplier } = config.retry;
+			if (maxAttempts !== undefined && (!Number.isInteger(maxAttempts) || maxAttempts < 1)) {
+				throw new RAGConfigurationError('retry.maxAttempts must be a positive integer.');
+			}
+			if ((initialDelayMs ?? 0) < 0 || (maxDelayMs ?? 0) < 0) {
+				throw new RAGConfigurationError('retry delays must not be negative.');
+			}
+			if (backoffMultiplier !== undefined && backoffMultiplier < 1) {
+				throw new RAGConfigurationError('retry.backoffMultiplier must be at least 1.');
+			}
 		}
 
 		if (!config.embeddingsConfig) {
-			throw new Error(
+			throw new RAGConfigurationError(
 				'embeddingsConfig must be provided to handle internal embedding generation.'
 			);
 		}
 
 		return {
 			...config,
+			qdrantConfig: config.qdrantConfig && withKeywordSearchIndex(config),
 			debug: config.debug ?? false,
 			defaultRetrievalLimit: config.defaultRetrievalLimit ?? 5,
 			// defaultScoreThreshold is deliberately left potentially undefined
@@ -83,8 +266,10 @@ export class RAGModule implements RAGModuleInterface {
 	 * @param config The configuration object for the RAG module.
 	 * @returns A Promise resolving to an initialized RAGModule instance.
 	 */
-	static async create(config: RAGConfig): Promise<RAGModule> {
-		const module = new RAGModule(config);
+	static async create<TMetadata extends Record<string, any> = Record<string, any>>(
+		config: RAGConfig<TMetadata>
+	): Promise<RAGModule<TMetadata>> {
+		const module = new RAGModule<TMetadata>(config);
 		await module.initialize();
 		return module;
 	}
@@ -104,7 +289,7 @@ export class RAGModule implements RAGModuleInterface {
 			// Initialize internal EmbeddingsModule
 			if (!this.config.embeddingsConfig) {
 				// This case is handled by validation, but double-check for safety
-				throw new Error('Internal error: embeddingsConfig is missing during initialization.');
+				throw new RAGConfigurationError('Internal error: embeddingsConfig is missing during initialization.');
 			}
 			this.embeddingsModule = await EmbeddingsModule.create({
 				...this.config.embeddingsConfig,
@@ -114,6 +299,11 @@ export class RAGModule implements RAGModuleInterface {
 			});
 			this.logger.info('Internal EmbeddingsModule initialized successfully.');
 
+			if (this.config.verifyEmbeddingDimension ?? true) {
+				await this.verifyEmbeddingDimension();
+			}
+			const embeddingModel = embeddingModelIdentity(this.config.embeddingsConfig, this.config.embeddingModelId);
+
 			// Initialize internal ChunkingModule or custom chunker if provided
 			if (this.config.chunkingConfig) {
 				if (typeof this.config.chunkingConfig === 'function') {
@@ -127,22 +317,56 @@ export class RAGModule implements RAGModuleInterface {
 					this.logger.info(`Internal ChunkingModule initialized with strategy: '${this.chunkingModule.getDefaultStrategyName()}'.`);
 				}
 			}
+			const parentChunker = this.createParentChunker();
+			this.embeddingCache = this.config.embeddingCache === false ? undefined : this.config.embeddingCache ?? new MemoryEmbeddingCache();
 
 			// Instantiate and initialize the specific RAG provider
 			switch (this.config.provider) {
 				case 'qdrant':
 					this.ragProvider = new QdrantProvider(
-						this.config.qdrantConfig,
+						this.config.qdrantConfig!, // Presence checked during validation
 						this.embeddingsModule, // Pass the initialized embeddings module
 						this.logger,
 						this.config.debug,
 						this.chunkingModule,
-						this.customChunker
+						this.customChunker,
+						this.config.retry,
+						embeddingModel,
+						parentChunker,
+						this.embeddingCache
+					);
+					break;
+				case 'memory':
+					this.ragProvider = new MemoryProvider(
+						this.config.memoryConfig ?? {},
+						this.embeddingsModule,
+						this.logger,
+						this.config.debug,
+						this.chunkingModule,
+						this.customChunker,
+						this.config.retry,
+						embeddingModel,
+						parentChunker,
+						this.embeddingCache
+					);
+					break;
+				case 'file':
+					this.ragProvider = new FileProvider(
+						this.config.fileConfig!, // Presence checked during validation
+						this.embeddingsModule,
+						this.logger,
+						this.config.debug,
+						this.chunkingModule,
+						this.customChunker,
+						this.config.retry,
+						embeddingModel,
+						parentChunker,
+						this.embeddingCache
 					);
 					break;
 				// Add cases for other providers here
 				default:
-					throw new Error(`Unsupported RAG provider: ${this.config.provider}`);
+					throw new RAGConfigurationError(`Unsupported RAG provider: ${this.config.provider}`);
 			}
 
 			await this.ragProvider.initialize();
@@ -152,25 +376,204 @@ export class RAGModule implements RAGModuleInterface {
 			this.logger.info('RAGModule initialized successfully.');
 		} catch (error) {
 			this.logger.error('Failed to initialize RAGModule:', { error });
-			// Convert to ToolkitError if desired, or rethrow
-			throw new Error(`RAGModule initialization failed: ${error instanceof Error ? error.message : String(error)}`);
+			// Typed errors from the provider already describe the failure; wrap anything else
+			if (error instanceof RAGError) {
+				throw error;
+			}
+			throw new RAGError(`RAGModule initialization failed: ${error instanceof Error ? error.message : String(error)}`, 500, {
+				provider: this.config.provider,
+				operation: 'initialize',
+				cause: error,
+			});
 		}
 	}
 
+	/**
+	 * Returns the function that splits documents into parent sections, if hierarchical indexing is enabled.
+	 */
+	private createParentChunker(): ((content: string) => string[]) | undefined {
+		const parentChunking = this.config.parentChunking;
+		if (!parentChunking) {
+			return undefined;
+		}
+		this.logger.info('Hierarchical indexing enabled: documents are split into parent sections.');
+		if (typeof parentChunking === 'function') {
+			return parentChunking;
+		}
+		const { chunkSize = DEFAULT_PARENT_CHUNK_SIZE, overlap = 0 } = parentChunking;
+		return (content) => defaultSimpleChunker(content, chunkSize, overlap);
+	}
+
+	/**
+	 * Embeds a probe text and checks the output dimension against the provider's configured
+	 * vector size, so a changed embedding model is caught at startup rather than on first insert.
+	 */
+	private async verifyEmbeddingDimension(): Promise<void> {
+		const expected = this.getProviderConfig()?.vectorSize;
+		if (expected === undefined) {
+			return;
+		}
+
+		const actual = await this.probeEmbeddingDimension(this.embeddingsModule);
+		if (actual === undefined || actual === expected) {
+			this.logger.debug(`Embedding dimension verified: ${actual ?? 'unknown'}.`);
+			return;
+		}
+
+		// Recreating the collection cannot fix this; only 'warn' lets initialization continue
+		if (this.config.qdrantConfig?.onSchemaMismatch === 'warn' && this.config.provider === 'qdrant') {
+			this.logger.warn(`Embeddings module produces ${actual}-dimensional vectors but vectorSize is ${expected}.`);
+			return;
+		}
+		throw new VectorDimensionMismatchError(expected, actual, {
+			provider: this.config.provider,
+			operation: 'initialize',
+			details: { source: 'embeddings' },
+		});
+	}
+
+	/**
+	 * Embeds a short probe text and returns the output dimension.
+	 */
+	private async probeEmbeddingDimension(embeddings: EmbeddingsModule): Promise<number | undefined> {
+		const [probe] = await withRetry<number[][]>(
+			() => embeddings.embed('dimension probe'),
+			this.config.retry ?? {},
+			this.logger,
+			'Embedding dimension probe'
+		);
+		return probe?.length;
+	}
+
 	private ensureInitialized(): void {
 		if (!this.isInitialized) {
-			throw new Error('RAGModule has not been initialized. Call RAGModule.create() first.');
+			throw new RAGError('RAGModule has not been initialized. Call RAGModule.create() first.');
+		}
+	}
+
+	/**
+	 * Rejects metadata that uses a reserved key, then validates it against `metadataSchema`,
+	 * if configured, returning the schema's output. The namespace set by a namespaced view
+	 * is passed through without going through the schema.
+	 * @param document The document ID or batch position, for error messages.
+	 */
+	private validateMetadata(metadata: TMetadata | undefined, document?: string): Record<string, any> | undefined {
+		const label = document === undefined ? 'Document metadata' : `Metadata of document '${document}'`;
+		if (metadata !== undefined) {
+			if (typeof metadata !== 'object' || metadata === null || Array.isArray(metadata)) {
+				throw new MetadataValidationError(`${label} must be an object.`, { operation: 'validation' });
+			}
+			const reserved = RESERVED_METADATA_KEYS.filter((key) => key in metadata);
+			if (reserved.length > 0) {
+				throw new MetadataValidationError(`${label} uses reserved keys: ${reserved.join(', ')}.`, {
+					operation: 'validation',
+					details: { reservedKeys: reserved },
+				});
+			}
+		}
+		if (!this.metadataSchema) {
+			return metadata;
+		}
+
+		const { [NAMESPACE_KEY]: namespace, ...fields }: Record<string, any> = metadata ?? {};
+		let parsed: Record<string, any>;
+		try {
+			parsed = this.metadataSchema.parse(fields);
+		} catch (error) {
+			throw new MetadataValidationError(
+				`${label} does not match the metadata schema: ${error instanceof Error ? error.message : String(error)}`,
+				{ operation: 'validation', cause: error }
+			);
+		}
+		return namespace === undefined ? parsed : { ...parsed, [NAMESPACE_KEY]: namespace };
+	}
+
+	/**
+	 * Returns a view of this module scoped to a tenant namespace (e.g., a course code).
+	 * Chunks added through the view are tagged with the namespace, and its retrieval,
+	 * lookups and deletions only ever see chunks in that namespace.
+	 * @param namespace A non-empty namespace identifier.
+	 */
+	forNamespace(namespace: string): NamespacedRAGModule<TMetadata> {
+		if (typeof namespace !== 'string' || namespace.length === 0) {
+			throw new RAGConfigurationError('namespace must be a non-empty string.');
 		}
+		return new NamespacedRAGModule(this, namespace);
 	}
 
 	/**
 	 * Adds a document to the configured vector store.
 	 */
-	async addDocument(content: string, metadata?: Record<string, any>): Promise<string[]> {
+	async addDocument(content: string, metadata?: TMetadata): Promise<string[]> {
 		this.ensureInitialized();
 		this.logger.debug('Adding document...', { metadata });
 		// Delegate to the provider, which handles chunking and embedding
-		return this.ragProvider.addDocument(content, metadata);
+		return this.ragProvider.addDocument(content, this.validateMetadata(metadata));
+	}
+
+	/**
+	 * Adds or replaces a document identified by a stable ID, without creating duplicates.
+	 * Only chunks with new or edited text are embedded.
+	 */
+	async upsertDocument(documentId: string, content: string, metadata?: TMetadata): Promise<DocumentUpsertReport> {
+		this.ensureInitialized();
+		if (!documentId) {
+			throw new RAGConfigurationError('documentId must be a non-empty string.');
+		}
+		this.logger.debug(`Upserting document '${documentId}'...`, { metadata });
+		return this.ragProvider.upsertDocument(documentId, content, this.validateMetadata(metadata, documentId));
+	}
+
+	/**
+	 * Ingests many documents with bounded concurrency, pooling their chunks into shared
+	 * embedding batches. Per-document failures are collected instead of aborting the run;
+	 * a document with invalid metadata is reported as failed and the rest are still ingested.
+	 */
+	async addDocuments(documents: DocumentInput<TMetadata>[], options?: BatchIngestOptions): Promise<BatchIngestResult> {
+		this.ensureInitialized();
+		this.logger.debug(`Adding ${documents.length} documents in batch...`, {
+			concurrency: options?.concurrency,
+			embedBatchSize: options?.embedBatchSize,
+		});
+		// Documents with invalid metadata fail on their own; the rest are ingested
+		const valid: DocumentInput[] = [];
+		const positions: number[] = []; // batch index of each valid document
+		const invalid: DocumentIngestFailure[] = [];
+		documents.forEach((doc, index) => {
+			try {
+				valid.push({ ...doc, metadata: this.validateMetadata(doc.metadata, doc.documentId ?? `#${index}`) });
+				positions.push(index);
+			} catch (error) {
+				if (!(error instanceof MetadataValidationError)) {
+					throw error;
+				}
+				invalid.push({ index, documentId: doc.documentId, error });
+			}
+		});
+
+		let completed = 0;
+		for (const failure of invalid) {
+			this.logger.error(`Failed to ingest document ${failure.index}${failure.documentId ? ` ('${failure.documentId}')` : ''}:`, {
+				error: failure.error,
+			});
+			options?.onProgress?.({ completed: ++completed, total: documents.length, failure });
+		}
+		const result = await this.ragProvider.addDocuments(valid, {
+			...options,
+			onProgress: (progress) =>
+				options?.onProgress?.({
+					completed: ++completed,
+					total: documents.length,
+					result: progress.result && { ...progress.result, index: positions[progress.result.index] },
+					failure: progress.failure && { ...progress.failure, index: positions[progress.failure.index] },
+				}),
+		});
+		return {
+			succeeded: result.succeeded.map((entry) => ({ ...entry, index: positions[entry.index] })),
+			failed: [...invalid, ...result.failed.map((entry) => ({ ...entry, index: positions[entry.index] }))].sort(
+				(a, b) => a.index - b.index
+			),
+		};
 	}
 
 	/**
@@ -179,7 +582,7 @@ export class RAGModule implements RAGModuleInterface {
 	async retrieveContext(
 		queryText: string,
 		options?: RetrievalOptions
-	): Promise<RetrievedChunk[]> {
+	): Promise<RetrievedChunk<TMetadata>[]> {
 		this.ensureInitialized();
 		this.logger.debug(`Retrieving context for query: "${queryText.substring(0, 50)}..."`, { options });
 
@@ -187,28 +590,241 @@ export class RAGModule implements RAGModuleInterface {
 		const finalOptions: RetrievalOptions = {
 			limit: options?.limit ?? this.config.defaultRetrievalLimit,
 			scoreThreshold: options?.scoreThreshold ?? this.config.defaultScoreThreshold,
-			filter: options?.filter, // Pass filter through if provided
+			filter: excludeParents(options?.filter), // Parent sections are only returned through their children
+			mode: options?.mode ?? this.config.defaultRetrievalMode ?? 'vector',
 		};
+		const limit = finalOptions.limit ?? 5;
+		const mmr = options?.mmr === true ? {} : options?.mmr || undefined;
+		const maxChunksPerDocument = options?.maxChunksPerDocument;
+		if (mmr?.lambda !== undefined && (mmr.lambda < 0 || mmr.lambda > 1)) {
+			throw new RAGConfigurationError('mmr.lambda must be between 0 and 1.');
+		}
+		if (maxChunksPerDocument !== undefined && maxChunksPerDocument < 1) {
+			throw new RAGConfigurationError('maxChunksPerDocument must be at least 1.');
+		}
+		const expandNeighbors = options?.expandNeighbors ?? 0;
+		if (!Number.isInteger(expandNeighbors) || expandNeighbors < 0) {
+			throw new RAGConfigurationError('expandNeighbors must be a non-negative integer.');
+		}
+		if (options?.returnParents && expandNeighbors > 0) {
+			throw new RAGConfigurationError('returnParents cannot be combined with expandNeighbors.');
+		}
 
-		// Delegate to the provider
-		const results = await this.ragProvider.retrieveContext(queryText, finalOptions);
+		// Over-fetch candidates when a later stage (reranking, diversification) cuts them down
+		const reranker = options?.rerank === false ? undefined : this.config.reranker;
+		let candidateLimit = limit;
+		if (reranker) {
+			candidateLimit = Math.max(candidateLimit, options?.rerankCandidates ?? this.config.defaultRerankCandidates ?? limit * 3);
+		}
+		if (mmr) {
+			candidateLimit = Math.max(candidateLimit, mmr.fetchK ?? 20);
+		} else if (maxChunksPerDocument !== undefined) {
+			candidateLimit = Math.max(candidateLimit, limit * 3);
+		}
+		if (options?.returnParents) {
+			// Several matches often share a parent
+			candidateLimit = Math.max(candidateLimit, limit * 3);
+		}
+
+		let results = await this.retrieveCandidates(queryText, {
+			...finalOptions,
+			limit: candidateLimit,
+			includeVectors: options?.includeVectors || mmr !== undefined, // MMR compares stored vectors
+		});
+
+		if (reranker && results.length > 0) {
+			this.logger.debug(`Reranking ${results.length} candidates.`);
+			results = await reranker.rerank(queryText, results);
+		}
+
+		if (mmr) {
+			// Raw vector scores are distances for Euclid; every other stage yields higher-is-better scores
+			const higherIsBetter = reranker !== undefined || finalOptions.mode !== 'vector' || this.getDistanceMetric() !== 'Euclid';
+			results = maximalMarginalRelevance(results, limit, mmr.lambda ?? 0.5, {
+				higherIsBetter,
+				maxPerDocument: maxChunksPerDocument,
+			});
+		} else if (maxChunksPerDocument !== undefined) {
+			results = limitPerDocument(results, maxChunksPerDocument);
+		}
+
+		// Parents and neighbours only need their text and payload, so their vectors are not fetched
+		const fetchChunks = async (filter: FilterExpression) => {
+			const records: PointRecord[] = [];
+			for await (const record of this.iteratePoints({ filter })) {
+				records.push(record);
+			}
+			return records;
+		};
+		if (options?.returnParents) {
+			results = await resolveParents(results, limit, fetchChunks);
+		} else {
+			results = results.slice(0, limit);
+		}
+		if (expandNeighbors > 0) {
+			results = await expandWithNeighbors(results, expandNeighbors, fetchChunks);
+		}
+		if (!options?.includeVectors) {
+			results = results.map(withoutVector);
+		}
 		this.logger.debug(`Retrieved ${results.length} context chunks.`);
-		return results;
+		// Stored metadata was validated on ingestion, so it is typed as the configured metadata
+		return results as RetrievedChunk<TMetadata>[];
+	}
+
+	/**
+	 * Assembles retrieved chunks into a token-budgeted context block with numbered citations,
+	 * ready to place in a prompt. Does not require initialization.
+	 */
+	buildContext(chunks: RetrievedChunk[], options?: ContextBuildOptions): BuiltContext {
+		const context = buildContext(chunks, options);
+		this.logger.debug(
+			`Built context from ${chunks.length - context.omitted.length}/${chunks.length} chunks (${context.tokenCount} tokens, ${context.sources.length} sources).`
+		);
+		return context;
+	}
+
+	/**
+	 * Returns the embedding cache's hit and miss counts, or undefined if caching is disabled.
+	 */
+	getEmbeddingCacheStats(): EmbeddingCacheStats | undefined {
+		return this.embeddingCache?.stats();
+	}
+
+	/**
+	 * Reports what is stored and how, counting documents unless `countDocuments` is false.
+	 */
+	async getStats(options: StatsOptions = {}): Promise<StorageStats> {
+		this.ensureInitialized();
+		const providerStats = await this.ragProvider.getStats();
+		const chunkCount = await this.ragProvider.countPoints(excludeParents());
+		const parentCount = await this.ragProvider.countPoints({ op: 'eq', key: IS_PARENT_KEY, value: true });
+		const stats: StorageStats = {
+			provider: this.config.provider,
+			...providerStats,
+			chunkCount,
+			parentCount,
+			embeddingModel: embeddingModelIdentity(this.config.embeddingsConfig, this.config.embeddingModelId),
+			embeddingCache: this.getEmbeddingCacheStats(),
+		};
+		if (options.countDocuments ?? true) {
+			stats.documentCount = (await this.listDocuments()).length;
+		}
+		return stats;
+	}
+
+	/**
+	 * Checks connectivity to the vector store, and optionally the embeddings provider.
+	 * Never throws; an uninitialized module is reported as unhealthy.
+	 */
+	async healthCheck(options: HealthCheckOptions = {}): Promise<HealthReport> {
+		const timeoutMs = options.timeoutMs ?? DEFAULT_HEALTH_CHECK_TIMEOUT_MS;
+		const vectorStore = await timedCheck(async () => {
+			this.ensureInitialized();
+			await this.ragProvider.ping();
+		}, timeoutMs);
+		const report: HealthReport = {
+			healthy: vectorStore.healthy,
+			provider: this.config.provider,
+			vectorStore,
+			checkedAt: new Date().toISOString(),
+		};
+		if (options.checkEmbeddings) {
+			// Bypasses the embedding cache, which would hide an unreachable embeddings provider
+			report.embeddings = await timedCheck(async () => {
+				this.ensureInitialized();
+				await this.embeddingsModule.embed(HEALTH_CHECK_TEXT);
+			}, timeoutMs);
+			report.healthy = report.healthy && report.embeddings.healthy;
+		}
+		if (!report.healthy) {
+			this.logger.warn('Health check failed:', { vectorStore: report.vectorStore, embeddings: report.embeddings });
+		}
+		return report;
+	}
+
+	/**
+	 * Retrieves candidate chunks using the requested retrieval mode.
+	 */
+	private async retrieveCandidates(queryText: string, options: RetrievalOptions): Promise<RetrievedChunk[]> {
+		switch (options.mode) {
+			case 'vector':
+				return this.ragProvider.retrieveContext(queryText, options);
+			case 'keyword':
+				return this.ragProvider.keywordSearch(queryText, options);
+			case 'hybrid':
+				return this.hybridRetrieve(queryText, options);
+			default:
+				throw new RAGConfigurationError(`Unsupported retrieval mode: ${options.mode}`);
+		}
+	}
+
+	/**
+	 * Runs vector and keyword retrieval over an enlarged candidate pool and fuses the rankings.
+	 * Fused scores replace the original scores on the returned chunks.
+	 */
+	private async hybridRetrieve(queryText: string, options: RetrievalOptions): Promise<RetrievedChunk[]> {
+		const hybrid = this.config.hybridSearch ?? {};
+		const limit = options.limit ?? 5;
+		const candidateOptions: RetrievalOptions = {
+			...options,
+			limit: limit * (hybrid.candidateMultiplier ?? 3),
+		};
+
+		const [vectorResults, keywordResults] = await Promise.all([
+			this.ragProvider.retrieveContext(queryText, candidateOptions),
+			this.ragProvider.keywordSearch(queryText, candidateOptions),
+		]);
+		this.logger.debug(`Hybrid retrieval fusing ${vectorResults.length} vector and ${keywordResults.length} keyword candidates.`);
+
+		const lists = [
+			{
+				results: vectorResults,
+				weight: hybrid.vectorWeight ?? 0.5,
+				higherIsBetter: this.getDistanceMetric() !== 'Euclid',
+			},
+			{ results: keywordResults, weight: hybrid.keywordWeight ?? 0.5 },
+		];
+		const fused = hybrid.fusion === 'weighted'
+			? weightedScoreFusion(lists)
+			: reciprocalRankFusion(lists, hybrid.rrfK);
+		return fused.slice(0, limit);
+	}
+
+	/**
+	 * Returns the distance metric used by the configured provider.
+	 */
+	private getDistanceMetric(): QdrantDistanceMetric {
+		return this.getProviderConfig()?.distanceMetric ?? 'Cosine';
+	}
+
+	/**
+	 * Returns the configuration of the selected provider, whose vector size and distance metric apply.
+	 */
+	private getProviderConfig(): { vectorSize?: number; distanceMetric?: QdrantDistanceMetric } | undefined {
+		switch (this.config.provider) {
+			case 'qdrant':
+				return this.config.qdrantConfig;
+			case 'file':
+				return this.config.fileConfig;
+			default:
+				return this.config.memoryConfig;
+		}
 	}
 
 	/**
 	 * Deletes specific chunks from the vector store by their IDs.
 	 */
-	async deleteDocumentsByIds(ids: string[]): Promise<void> {
+	async deleteDocumentsByIds(ids: string[], filter?: MetadataFilter): Promise<void> {
 		this.ensureInitialized();
 		this.logger.debug(`Deleting documents by IDs: ${ids.join(', ')}`);
-		return this.ragProvider.deleteDocumentsByIds(ids);
+		return this.ragProvider.deleteDocumentsByIds(ids, filter);
 	}
 
 	/**
 	 * Deletes chunks from the vector store that match the provided metadata filter.
 	 */
-	async deleteDocumentsByMetadata(filter: Record<string, any>): Promise<void> {
+	async deleteDocumentsByMetadata(filter: MetadataFilter): Promise<void> {
 		this.ensureInitialized();
 		this.logger.debug('Deleting documents by metadata filter:', { filter });
 		return this.ragProvider.deleteDocumentsByMetadata(filter);
@@ -217,12 +833,81 @@ export class RAGModule implements RAGModuleInterface {
 	/**
 	 * Retrieves all documents/chunks from the vector store that match the provided metadata filter.
 	 */
-	async getDocumentsByMetadata(filter: Record<string, any>): Promise<any[]> {
+	async getDocumentsByMetadata(filter: MetadataFilter): Promise<any[]> {
 		this.ensureInitialized();
 		this.logger.debug('Getting documents by metadata filter:', { filter });
 		return this.ragProvider.getDocumentsByMetadata(filter);
 	}
 
+	/**
+	 * Lists stored points matching a filter one page at a time.
+	 */
+	async listPoints(options: PointListOptions = {}): Promise<PointPage> {
+		this.ensureInitialized();
+		if (options.pageSize !== undefined && (!Number.isInteger(options.pageSize) || options.pageSize < 1)) {
+			throw new RAGConfigurationError('pageSize must be a positive integer.');
+		}
+		this.logger.debug('Listing points...', { filter: options.filter, pageSize: options.pageSize });
+		return this.ragProvider.listPoints(options);
+	}
+
+	/**
+	 * Iterates over stored points matching a filter, fetching one page at a time.
+	 */
+	async *iteratePoints(options: PointListOptions = {}): AsyncIterableIterator<PointRecord> {
+		let cursor = options.cursor;
+		do {
+			const page = await this.listPoints({ ...options, cursor });
+			yield* page.records;
+			cursor = page.nextCursor;
+		} while (cursor);
+	}
+
+	/**
+	 * Lists the indexed documents, reading only the fields needed to group chunks.
+	 */
+	async listDocuments(options: DocumentListOptions = {}): Promise<DocumentSummary[]> {
+		const fields = options.fields ?? [];
+		this.logger.debug('Listing documents...', { filter: options.filter });
+		return summarizeDocuments(
+			this.iteratePoints({
+				filter: excludeParents(options.filter),
+				fields: [...new Set([...DOCUMENT_FIELDS, ...fields])],
+				pageSize: options.pageSize,
+			}),
+			fields
+		);
+	}
+
+	/**
+	 * Fetches a document stored outside any namespace and reassembles its text from its chunks.
+	 */
+	async getDocument(documentId: string, filter?: MetadataFilter): Promise<StoredDocument | undefined> {
+		this.logger.debug(`Getting document '${documentId}'...`);
+		// Parent sections are included, since hierarchical documents are rebuilt from them
+		return readDocument(documentId, this.iteratePoints({ filter: withDocument(documentId, withoutNamespace(filter)) }));
+	}
+
+	/**
+	 * Counts the searchable chunks matching a filter.
+	 */
+	async countChunks(filter?: MetadataFilter): Promise<number> {
+		this.ensureInitialized();
+		return this.ragProvider.countPoints(excludeParents(filter));
+	}
+
+	/**
+	 * Checks whether any chunks of a document are stored outside any namespace.
+	 */
+	async documentExists(documentId: string, filter?: MetadataFilter): Promise<boolean> {
+		const page = await this.listPoints({
+			filter: excludeParents(withDocument(documentId, withoutNamespace(filter))),
+			pageSize: 1,
+			fields: [],
+		});
+		return page.records.length > 0;
+	}
+
 	/**
 	 * Deletes the entire underlying storage container (e.g., collection, index)
 	 * associated with this RAG module's configuration.
@@ -233,4 +918,168 @@ export class RAGModule implements RAGModuleInterface {
 		this.logger.warn('Attempting to delete the underlying storage for this RAG module instance.');
 		return this.ragProvider.deleteStorage();
 	}
+
+	/**
+	 * Releases the store, e.g. the file provider's directory lock. Does nothing if the module
+	 * is not initialized or already closed.
+	 */
+	async close(): Promise<void> {
+		if (!this.isInitialized) {
+			return;
+		}
+		await this.ragProvider.close?.();
+		this.isInitialized = false;
+		this.logger.debug('RAG module closed.');
+	}
+
+	/**
+	 * Lists the payload indexes that exist in the store.
+	 */
+	async listPayloadIndexes(): Promise<PayloadIndexInfo[]> {
+		this.ensureInitialized();
+		if (!this.ragProvider.listPayloadIndexes) {
+			throw new RAGConfigurationError(`Provider '${this.config.provider}' does not support payload indexes.`);
+		}
+		return this.ragProvider.listPayloadIndexes();
+	}
+
+	/**
+	 * Creates a payload index at runtime, replacing an existing index on the field with a different type.
+	 */
+	async createPayloadIndex(field: string, type: PayloadIndexType): Promise<void> {
+		this.ensureInitialized();
+		if (!this.ragProvider.createPayloadIndex) {
+			throw new RAGConfigurationError(`Provider '${this.config.provider}' does not support payload indexes.`);
+		}
+		if (!field || !PAYLOAD_INDEX_TYPES.includes(type)) {
+			throw new RAGConfigurationError(`Invalid payload index: field '${field}', type '${type}'.`);
+		}
+		this.logger.debug(`Creating '${type}' payload index on '${field}'...`);
+		return this.ragProvider.createPayloadIndex({ field, type });
+	}
+
+	/**
+	 * Re-embeds the store with a new embedding model into a new collection and swaps the
+	 * alias named by `collectionName` to it, so live queries move over without downtime.
+	 * Afterwards this module embeds queries and new documents with the new model.
+	 */
+	async migrateEmbeddings(options: EmbeddingMigrationOptions): Promise<EmbeddingMigrationResult> {
+		this.ensureInitialized();
+		if (!this.ragProvider.migrateEmbeddings) {
+			throw new RAGConfigurationError(`Provider '${this.config.provider}' does not support embedding migration.`);
+		}
+		if (!options.embeddingsConfig || !(options.vectorSize > 0)) {
+			throw new RAGConfigurationError('embeddingsConfig and a positive vectorSize are required for migration.');
+		}
+
+		const embeddings = await EmbeddingsModule.create({
+			...options.embeddingsConfig,
+			logger: this.logger,
+			debug: this.config.debug,
+		});
+		const actual = await this.probeEmbeddingDimension(embeddings);
+		if (actual !== undefined && actual !== options.vectorSize) {
+			throw new VectorDimensionMismatchError(options.vectorSize, actual, {
+				provider: this.config.provider,
+				operation: 'migration',
+				details: { source: 'embeddings' },
+			});
+		}
+
+		const embeddingModel = embeddingModelIdentity(options.embeddingsConfig, options.embeddingModelId);
+		const result = await this.ragProvider.migrateEmbeddings(embeddings, embeddingModel, options);
+
+		// Queries must now be embedded with the model the alias points at
+		this.embeddingsModule = embeddings;
+		this.config = {
+			...this.config,
+			embeddingsConfig: options.embeddingsConfig,
+			embeddingModelId: options.embeddingModelId,
+			qdrantConfig: this.config.qdrantConfig && {
+				...this.config.qdrantConfig,
+				vectorSize: options.vectorSize,
+				distanceMetric: options.distanceMetric ?? this.config.qdrantConfig.distanceMetric,
+			},
+		};
+		return result;
+	}
+
+	/**
+	 * Streams every stored point to a snapshot in JSON Lines format, a page at a time.
+	 * The stream is ended when the export completes.
+	 */
+	async exportStorage(stream: NodeJS.WritableStream, options: SnapshotOptions = {}): Promise<SnapshotResult> {
+		this.ensureInitialized();
+		const batchSize = this.snapshotBatchSize(options);
+		const header: SnapshotHeader = {
+			format: SNAPSHOT_FORMAT,
+			version: SNAPSHOT_VERSION,
+			provider: this.config.provider,
+			vectorSize: this.getProviderConfig()?.vectorSize,
+			distanceMetric: this.getDistanceMetric(),
+			embeddingModel: embeddingModelIdentity(this.config.embeddingsConfig, this.config.embeddingModelId),
+			createdAt: new Date().toISOString(),
+		};
+		this.logger.info('Exporting storage snapshot...');
+		const points = await writeSnapshot(stream, header, this.ragProvider.exportPoints(batchSize), options.onProgress);
+		this.logger.info(`Exported ${points} points.`);
+		return { header, points };
+	}
+
+	/**
+	 * Restores a snapshot written by `exportStorage` into the store without re-embedding.
+	 * The snapshot must match this module's vector size and embedding model.
+	 */
+	async importStorage(stream: NodeJS.ReadableStream, options: SnapshotOptions = {}): Promise<SnapshotResult> {
+		this.ensureInitialized();
+		const batchSize = this.snapshotBatchSize(options);
+		this.logger.info('Importing storage snapshot...');
+		let imported = 0;
+		const result = await readSnapshot(
+			stream,
+			batchSize,
+			(header) => this.checkSnapshotHeader(header),
+			async (points) => {
+				await this.ragProvider.importPoints(points);
+				imported += points.length;
+				options.onProgress?.(imported);
+			}
+		);
+		this.logger.info(`Imported ${result.points} points from a '${result.header.provider}' snapshot.`);
+		return result;
+	}
+
+	private snapshotBatchSize(options: SnapshotOptions): number {
+		const batchSize = options.batchSize ?? DEFAULT_SNAPSHOT_BATCH_SIZE;
+		if (!Number.isInteger(batchSize) || batchSize < 1) {
+			throw new RAGConfigurationError('batchSize must be a positive integer.');
+		}
+		return batchSize;
+	}
+
+	/**
+	 * Rejects a snapshot whose vectors are not usable with this module's store and queries.
+	 */
+	private checkSnapshotHeader(header: SnapshotHeader): void {
+		const vectorSize = this.getProviderConfig()?.vectorSize;
+		if (vectorSize !== undefined && header.vectorSize !== undefined && header.vectorSize !== vectorSize) {
+			throw new VectorDimensionMismatchError(vectorSize, header.vectorSize, {
+				provider: this.config.provider,
+				operation: 'import',
+				details: { source: 'snapshot' },
+			});
+		}
+		const embeddingModel = embeddingModelIdentity(this.config.embeddingsConfig, this.config.embeddingModelId);
+		if (embeddingModel && header.embeddingModel && header.embeddingModel !== embeddingModel) {
+			throw new RAGConfigurationError(
+				`Snapshot was embedded with '${header.embeddingModel}', but this module uses '${embeddingModel}'.`,
+				{ provider: this.config.provider, operation: 'import', details: { expected: embeddingModel, actual: header.embeddingModel } }
+			);
+		}
+		if (header.distanceMetric !== this.getDistanceMetric()) {
+			this.logger.warn(
+				`Snapshot was exported with the ${header.distanceMetric} distance metric; this store uses ${this.getDistanceMetric()}.`
+			);
+		}
+	}
 }
\ No newline at end of file
@@ -0,0 +1,34 @@
+import { Reranker, RetrievedChunk } from '../types';
+import { RAGError } from '../errors';
+
+/**
+ * Scores each document for relevance to the query, returning one score per document
+ * in the same order (higher is more relevant).
+ */
+export type RelevanceScoringFunction = (queryText: string, documents: string[]) => Promise<number[]>;
+
+/**
+ * Adapter that reranks chunks with an external relevance model, such as a
+ * cross-encoder served over HTTP or a hosted rerank API.
+ * The scoring function receives all candidate texts in a single call.
+ */
+export class CrossEncoderReranker implements Reranker {
+	private scoreDocuments: RelevanceScoringFunction;
+
+	constructor(scoreDocuments: RelevanceScoringFunction) {
+		this.scoreDocuments = scoreDocuments;
+	}
+
+	async rerank(queryText: string, chunks: RetrievedChunk[]): Promise<RetrievedChunk[]> {
+		if (chunks.length === 0) {
+			return chunks;
+		}
+		const scores = await this.scoreDocuments(queryText, chunks.map((c) => c.content));
+		if (scores.length !== chunks.length) {
+			throw new RAGError(`Reranker returned ${scores.length} scores for ${chunks.length} chunks.`, 502, { operation: 'rerank' });
+		}
+		return chunks
+			.map((chunk, i) => ({ ...chunk, score: scores[i] }))
+			.sort((a, b) => b.score - a.score);
+	}
+}
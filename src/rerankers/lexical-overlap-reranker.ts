@@ -0,0 +1,53 @@
+import { Reranker, RetrievedChunk } from '../types';
+import { tokenize, uniqueTerms } from '../retrieval/bm25';
+import { RAGConfigurationError } from '../errors';
+
+/**
+ * Options for the lexical overlap reranker.
+ */
+export interface LexicalOverlapRerankerOptions {
+	/**
+	 * Weight (0-1) given to the chunk's original retrieval score, min-max normalized
+	 * across the candidates. The rest of the weight goes to query term overlap.
+	 * Defaults to 0 (rank by overlap only). Leave at 0 for Euclidean distance scores.
+	 */
+	originalScoreWeight?: number;
+}
+
+/**
+ * Reranks chunks by the fraction of distinct query terms they contain.
+ * Cheap and dependency-free; useful for promoting chunks with exact term matches.
+ * Ties keep their original retrieval order.
+ */
+export class LexicalOverlapReranker implements Reranker {
+	private originalScoreWeight: number;
+
+	constructor(options: LexicalOverlapRerankerOptions = {}) {
+		this.originalScoreWeight = options.originalScoreWeight ?? 0;
+		if (this.originalScoreWeight < 0 || this.originalScoreWeight > 1) {
+			throw new RAGConfigurationError('originalScoreWeight must be between 0 and 1.');
+		}
+	}
+
+	async rerank(queryText: string, chunks: RetrievedChunk[]): Promise<RetrievedChunk[]> {
+		const queryTerms = uniqueTerms(queryText);
+		if (queryTerms.length === 0 || chunks.length === 0) {
+			return chunks;
+		}
+
+		const scores = chunks.map((c) => c.score);
+		const min = Math.min(...scores);
+		const range = Math.max(...scores) - min;
+
+		return chunks
+			.map((chunk, index) => {
+				const chunkTerms = new Set(tokenize(chunk.content));
+				const overlap = queryTerms.filter((term) => chunkTerms.has(term)).length / queryTerms.length;
+				const original = range === 0 ? 1 : (chunk.score - min) / range;
+				const score = (1 - this.originalScoreWeight) * overlap + this.originalScoreWeight * original;
+				return { chunk: { ...chunk, score }, index };
+			})
+			.sort((a, b) => b.chunk.score - a.chunk.score || a.index - b.index)
+			.map(({ chunk }) => chunk);
+	}
+}
@@ -0,0 +1,61 @@
+import { Reranker, RetrievedChunk } from '../types';
+
+/**
+ * Sends a prompt to a language model and resolves to its text response.
+ * For example, wrap `LLMModule.sendMessage` from `ubc-genai-toolkit-llm`.
+ */
+export type CompletionFunction = (prompt: string) => Promise<string>;
+
+/**
+ * Options for the LLM reranker.
+ */
+export interface LLMRerankerOptions {
+	/**
+	 * Builds the prompt for a single chunk. The model must answer with a number
+	 * from 0 to 10. Defaults to a short relevance-rating prompt.
+	 */
+	buildPrompt?: (queryText: string, chunkContent: string) => string;
+}
+
+function defaultPrompt(queryText: string, chunkContent: string): string {
+	return [
+		'Rate how relevant the passage is to the question on a scale from 0 (irrelevant) to 10 (directly answers it).',
+		'Respond with the number only.',
+		'',
+		`Question: ${queryText}`,
+		'',
+		`Passage: ${chunkContent}`,
+	].join('\n');
+}
+
+/**
+ * Reranks chunks by asking a language model to rate each one for relevance.
+ * One completion is requested per chunk, concurrently. Scores are normalized to 0-1;
+ * a response without a parsable number scores 0.
+ */
+export class LLMReranker implements Reranker {
+	private complete: CompletionFunction;
+	private buildPrompt: (queryText: string, chunkContent: string) => string;
+
+	constructor(complete: CompletionFunction, options: LLMRerankerOptions = {}) {
+		this.complete = complete;
+		this.buildPrompt = options.buildPrompt ?? defaultPrompt;
+	}
+
+	async rerank(queryText: string, chunks: RetrievedChunk[]): Promise<RetrievedChunk[]> {
+		const ratings = await Promise.all(
+			chunks.map((chunk) => this.complete(this.buildPrompt(queryText, chunk.content)))
+		);
+		return chunks
+			.map((chunk, i) => ({ ...chunk, score: this.parseRating(ratings[i]) }))
+			.sort((a, b) => b.score - a.score);
+	}
+
+	private parseRating(response: string): number {
+		const match = response.match(/-?\d+(\.\d+)?/);
+		if (!match) {
+			return 0;
+		}
+		return Math.min(Math.max(parseFloat(match[0]), 0), 10) / 10;
+	}
+}
@@ -0,0 +1,76 @@
+/**
+ * Corpus-level statistics needed to compute BM25 scores.
+ */
+export interface BM25CorpusStats {
+	/** Total number of documents (chunks) in the corpus. */
+	documentCount: number;
+	/** Average document length, in tokens. */
+	averageDocumentLength: number;
+	/** Number of documents containing each term. */
+	documentFrequency: Map<string, number>;
+}
+
+/** BM25 term-frequency saturation parameter. */
+const K1 = 1.2;
+/** BM25 length normalization parameter. */
+const B = 0.75;
+
+/**
+ * Splits text into lowercase word tokens (letters, digits and underscores),
+ * so that course codes like 'CPSC110' and identifiers like 'ERR_TIMEOUT' stay intact.
+ */
+export function tokenize(text: string): string[] {
+	return text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? [];
+}
+
+/**
+ * Returns the distinct tokens of a query, preserving first-seen order.
+ */
+export function uniqueTerms(text: string): string[] {
+	return [...new Set(tokenize(text))];
+}
+
+/**
+ * Builds corpus statistics from already-tokenized documents.
+ */
+export function buildCorpusStats(documents: string[][]): BM25CorpusStats {
+	const documentFrequency = new Map<string, number>();
+	let totalLength = 0;
+	for (const tokens of documents) {
+		totalLength += tokens.length;
+		for (const term of new Set(tokens)) {
+			documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+		}
+	}
+	return {
+		documentCount: documents.length,
+		averageDocumentLength: documents.length > 0 ? totalLength / documents.length : 0,
+		documentFrequency,
+	};
+}
+
+/**
+ * Scores a tokenized document against query terms using Okapi BM25.
+ * Uses the non-negative IDF variant, so scores are always >= 0.
+ */
+export function bm25Score(queryTerms: string[], documentTokens: string[], stats: BM25CorpusStats): number {
+	if (documentTokens.length === 0 || stats.documentCount === 0) {
+		return 0;
+	}
+
+	const termFrequency = new Map<string, number>();
+	for (const token of documentTokens) {
+		termFrequency.set(token, (termFrequency.get(token) ?? 0) + 1);
+	}
+
+	const lengthRatio = stats.averageDocumentLength > 0 ? documentTokens.length / stats.averageDocumentLength : 1;
+	let score = 0;
+	for (const term of queryTerms) {
+		const tf = termFrequency.get(term);
+		if (!tf) continue;
+		const df = stats.documentFrequency.get(term) ?? 0;
+		const idf = Math.log(1 + (stats.documentCount - df + 0.5) / (df + 0.5));
+		score += idf * ((tf * (K1 + 1)) / (tf + K1 * (1 - B + B * lengthRatio)));
+	}
+	return score;
+}
@@ -0,0 +1,150 @@
+import { BuiltContext, ContextBuildOptions, ContextSource, RetrievedChunk } from '../types';
+
+const DEFAULT_MAX_TOKENS = 2000;
+const DEFAULT_HEADER =
+	'Answer using the numbered sources below. Cite the sources you use by number, e.g. [1].';
+/** Shortest shared text treated as chunker overlap rather than coincidence. */
+const MIN_OVERLAP_CHARS = 20;
+
+/**
+ * Estimates tokens as one per four characters, a common approximation for English text.
+ */
+function estimateTokens(text: string): number {
+	return Math.ceil(text.length / 4);
+}
+
+function defaultLabel(metadata: Record<string, any>): string {
+	const label = metadata.title ?? metadata.source ?? metadata.sourceId;
+	return label === undefined || label === null ? '' : String(label);
+}
+
+function documentId(chunk: RetrievedChunk): string | undefined {
+	const sourceId = chunk.metadata?.sourceId;
+	return sourceId === undefined || sourceId === null ? undefined : String(sourceId);
+}
+
+function chunkPosition(chunk: RetrievedChunk): number | undefined {
+	if (chunk.chunkRange) {
+		return chunk.chunkRange.start;
+	}
+	const index = chunk.metadata?.chunkIndex;
+	return typeof index === 'number' ? index : undefined;
+}
+
+/** Last `chunkIndex` covered by a chunk, which differs from its position for merged passages. */
+function chunkEnd(chunk: RetrievedChunk): number | undefined {
+	return chunk.chunkRange?.end ?? chunkPosition(chunk);
+}
+
+/**
+ * Returns the length of the longest suffix of `previous` that is also a prefix of `next`,
+ * if it is long enough to be chunker overlap.
+ */
+export function overlapLength(previous: string, next: string): number {
+	for (let length = Math.min(previous.length, next.length); length >= MIN_OVERLAP_CHARS; length--) {
+		if (previous.endsWith(next.slice(0, length))) {
+			return length;
+		}
+	}
+	return 0;
+}
+
+/**
+ * Appends the chunk that follows `previous` in its document. When the chunks overlap the
+ * shared text is dropped and the rest appended directly, since the chunker may have split
+ * mid-word; otherwise the chunks are separated by a newline.
+ */
+export function joinAdjacent(previous: string, next: string): string {
+	const overlap = overlapLength(previous, next);
+	return overlap > 0 ? previous + next.slice(overlap) : previous + '\n' + next;
+}
+
+/**
+ * Assembles retrieved chunks into a token-budgeted prompt context with numbered citations.
+ *
+ * Chunks are taken in the given (relevance) order until the budget is spent, skipping
+ * empty chunks, exact duplicates, and chunks whose text is already contained in a
+ * selected chunk of the same document. The selected chunks are then grouped by document,
+ * documents ordered by their best chunk, and chunks within a document put back in
+ * reading order by `chunkIndex`. Text that adjacent chunks share because of chunk
+ * overlap is included once.
+ */
+export function buildContext(chunks: RetrievedChunk[], options: ContextBuildOptions = {}): BuiltContext {
+	const maxTokens = options.maxTokens ?? DEFAULT_MAX_TOKENS;
+	const countTokens = options.countTokens ?? estimateTokens;
+	const header = options.header ?? DEFAULT_HEADER;
+	const formatLabel = options.formatLabel ?? defaultLabel;
+
+	// 1. Select the most relevant chunks that fit, skipping duplicated text.
+	// Chunks without a sourceId each count as their own document.
+	const groups = new Map<string | RetrievedChunk, RetrievedChunk[]>();
+	const omitted: RetrievedChunk[] = [];
+	const seenText = new Set<string>();
+	let used = header ? countTokens(header) : 0;
+	for (const chunk of chunks) {
+		const key = documentId(chunk) ?? chunk;
+		const selected = groups.get(key) ?? [];
+		const text = chunk.content.trim();
+		if (!text || seenText.has(text) || selected.some((s) => s.content.includes(text))) {
+			omitted.push(chunk);
+			continue;
+		}
+		// Cost includes the separator, plus the citation line for a document's first chunk
+		const cost = countTokens(
+			selected.length === 0
+				? `\n\n[${groups.size + 1}] ${formatLabel(chunk.metadata ?? {})}\n${chunk.content}`
+				: `\n[...]\n${chunk.content}`
+		);
+		if (used + cost > maxTokens) {
+			omitted.push(chunk);
+			continue;
+		}
+		used += cost;
+		seenText.add(text);
+		groups.set(key, [...selected, chunk]);
+	}
+
+	if (groups.size === 0) {
+		return { text: '', sources: [], tokenCount: 0, omitted };
+	}
+
+	// 2. Number the documents and restore reading order within each
+	const sources: ContextSource[] = [];
+	const sections: string[] = [];
+	for (const group of groups.values()) {
+		const ordered = group
+			.map((chunk, i) => ({ chunk, i }))
+			.sort((a, b) => (chunkPosition(a.chunk) ?? a.i) - (chunkPosition(b.chunk) ?? b.i) || a.i - b.i)
+			.map(({ chunk }) => chunk);
+
+		let body = '';
+		ordered.forEach((chunk, i) => {
+			if (i === 0) {
+				body = chunk.content;
+				return;
+			}
+			const previous = ordered[i - 1];
+			const adjacent = chunkEnd(previous) !== undefined && chunkPosition(chunk) === chunkEnd(previous)! + 1;
+			if (adjacent) {
+				body = joinAdjacent(body, chunk.content);
+			} else {
+				body += '\n[...]\n' + chunk.content;
+			}
+		});
+
+		const metadata = ordered[0].metadata ?? {};
+		const number = sources.length + 1;
+		const label = formatLabel(metadata);
+		sources.push({
+			number,
+			label,
+			documentId: documentId(ordered[0]),
+			metadata,
+			chunks: ordered,
+		});
+		sections.push(`[${number}]${label ? ' ' + label : ''}\n${body}`);
+	}
+
+	const text = [...(header ? [header] : []), ...sections].join('\n\n');
+	return { text, sources, tokenCount: countTokens(text), omitted };
+}
@@ -0,0 +1,111 @@
+import { RetrievedChunk } from '../types';
+import { cosineSimilarity } from '../providers/vector-math';
+
+/**
+ * Returns the document a chunk belongs to, or undefined if it has no `sourceId`.
+ */
+function documentKey(chunk: RetrievedChunk): string | undefined {
+	const sourceId = chunk.metadata?.sourceId;
+	return sourceId === undefined || sourceId === null ? undefined : String(sourceId);
+}
+
+/**
+ * Tracks how many chunks have been taken per document and enforces a cap.
+ */
+class DocumentCounter {
+	private counts = new Map<string, number>();
+	private max?: number;
+
+	constructor(max?: number) {
+		this.max = max;
+	}
+
+	canTake(chunk: RetrievedChunk): boolean {
+		const key = documentKey(chunk);
+		return this.max === undefined || key === undefined || (this.counts.get(key) ?? 0) < this.max;
+	}
+
+	take(chunk: RetrievedChunk): void {
+		const key = documentKey(chunk);
+		if (key !== undefined) {
+			this.counts.set(key, (this.counts.get(key) ?? 0) + 1);
+		}
+	}
+}
+
+/**
+ * Keeps chunks in order, skipping any beyond `maxPerDocument` from the same document.
+ */
+export function limitPerDocument(chunks: RetrievedChunk[], maxPerDocument: number): RetrievedChunk[] {
+	const counter = new DocumentCounter(maxPerDocument);
+	return chunks.filter((chunk) => {
+		if (!counter.canTake(chunk)) return false;
+		counter.take(chunk);
+		return true;
+	});
+}
+
+/**
+ * Greedily selects up to `k` chunks by Maximal Marginal Relevance:
+ * each step picks the chunk maximizing
+ * `lambda * relevance - (1 - lambda) * max similarity to already selected chunks`.
+ *
+ * Relevance is the chunk's score min-max normalized across the candidates (inverted when
+ * lower scores are better); similarity is the cosine similarity of the stored vectors.
+ * Chunks without a vector are treated as dissimilar to everything.
+ */
+export function maximalMarginalRelevance(
+	chunks: RetrievedChunk[],
+	k: number,
+	lambda = 0.5,
+	options: { higherIsBetter?: boolean; maxPerDocument?: number } = {}
+): RetrievedChunk[] {
+	const { higherIsBetter = true, maxPerDocument } = options;
+	if (chunks.length === 0 || k <= 0) {
+		return [];
+	}
+
+	const scores = chunks.map((c) => c.score);
+	const min = Math.min(...scores);
+	const range = Math.max(...scores) - min;
+	const relevance = chunks.map((c) => {
+		const normalized = range === 0 ? 1 : (c.score - min) / range;
+		return higherIsBetter ? normalized : 1 - normalized;
+	});
+
+	const counter = new DocumentCounter(maxPerDocument);
+	const remaining = new Set(chunks.map((_, i) => i));
+	// Highest similarity of each candidate to any selected chunk so far
+	const maxSimilarity = new Array<number>(chunks.length).fill(0);
+	const selected: RetrievedChunk[] = [];
+
+	while (selected.length < k && remaining.size > 0) {
+		let bestIndex = -1;
+		let bestValue = -Infinity;
+		for (const i of remaining) {
+			if (!counter.canTake(chunks[i])) continue;
+			const value = lambda * relevance[i] - (1 - lambda) * maxSimilarity[i];
+			if (value > bestValue) {
+				bestValue = value;
+				bestIndex = i;
+			}
+		}
+		if (bestIndex === -1) break; // Every remaining candidate is capped
+
+		const picked = chunks[bestIndex];
+		selected.push(picked);
+		counter.take(picked);
+		remaining.delete(bestIndex);
+
+		if (picked.vector) {
+			for (const i of remaining) {
+				const vector = chunks[i].vector;
+				if (vector) {
+					maxSimilarity[i] = Math.max(maxSimilarity[i], cosineSimilarity(picked.vector, vector));
+				}
+			}
+		}
+	}
+
+	return selected;
+}
@@ -0,0 +1,70 @@
+import { RetrievedChunk } from '../types';
+
+/**
+ * One ranked result list to be fused, with its relative weight.
+ */
+export interface RankedList {
+	results: RetrievedChunk[];
+	weight: number;
+	/** False when lower scores are better (e.g., Euclidean distance). Defaults to true. */
+	higherIsBetter?: boolean;
+}
+
+/**
+ * Returns the key used to recognise the same chunk across result lists.
+ */
+function chunkKey(chunk: RetrievedChunk): string {
+	return chunk.id ?? chunk.content;
+}
+
+/**
+ * Merges accumulated scores back into chunks, sorted best first.
+ */
+function collect(fused: Map<string, { chunk: RetrievedChunk; score: number }>): RetrievedChunk[] {
+	return [...fused.values()]
+		.sort((a, b) => b.score - a.score)
+		.map(({ chunk, score }) => ({ ...chunk, score }));
+}
+
+/**
+ * Fuses result lists with weighted Reciprocal Rank Fusion:
+ * each chunk scores the sum of `weight / (k + rank)` over the lists it appears in.
+ * Only ranks matter, so lists with incomparable score scales can be combined.
+ */
+export function reciprocalRankFusion(lists: RankedList[], k = 60): RetrievedChunk[] {
+	const fused = new Map<string, { chunk: RetrievedChunk; score: number }>();
+	for (const { results, weight } of lists) {
+		results.forEach((chunk, index) => {
+			const key = chunkKey(chunk);
+			const entry = fused.get(key) ?? { chunk, score: 0 };
+			entry.score += weight / (k + index + 1);
+			fused.set(key, entry);
+		});
+	}
+	return collect(fused);
+}
+
+/**
+ * Fuses result lists by a weighted sum of min-max normalized scores.
+ * Each list's scores are rescaled to [0, 1] (best = 1) before weighting;
+ * a chunk missing from a list contributes 0 for that list.
+ */
+export function weightedScoreFusion(lists: RankedList[]): RetrievedChunk[] {
+	const fused = new Map<string, { chunk: RetrievedChunk; score: number }>();
+	for (const { results, weight, higherIsBetter = true } of lists) {
+		if (results.length === 0) continue;
+		const scores = results.map((c) => c.score);
+		const min = Math.min(...scores);
+		const max = Math.max(...scores);
+		const range = max - min;
+		for (const chunk of results) {
+			let normalized = range === 0 ? 1 : (chunk.score - min) / range;
+			if (!higherIsBetter) normalized = 1 - normalized;
+			const key = chunkKey(chunk);
+			const entry = fused.get(key) ?? { chunk, score: 0 };
+			entry.score += weight * normalized;
+			fused.set(key, entry);
+		}
+	}
+	return collect(fused);
+}
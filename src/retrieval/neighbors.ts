@@ -0,0 +1,135 @@
+import { FilterExpression, PointRecord, RetrievedChunk } from '../types';
+import { NAMESPACE_KEY } from '../providers/document-chunker';
+import { joinAdjacent } from './context-builder';
+
+/**
+ * Fetches stored points matching a filter, as listed by `listPoints` (without vectors).
+ */
+export type ChunkFetcher = (filter: FilterExpression) => Promise<PointRecord[]>;
+
+interface Window {
+	start: number;
+	end: number;
+	/** Rank of the best hit in the window; the window's result takes this position. */
+	rank: number;
+	hit: RetrievedChunk;
+}
+
+/**
+ * Identifies the document a chunk belongs to: its `sourceId`, or for documents added
+ * without an ID, its `documentHash`. Namespaced chunks are kept apart from others.
+ */
+function documentScope(chunk: RetrievedChunk): FilterExpression[] | undefined {
+	const metadata = chunk.metadata ?? {};
+	const conditions: FilterExpression[] = [];
+	if (metadata.sourceId !== undefined && metadata.sourceId !== null) {
+		conditions.push({ op: 'eq', key: 'sourceId', value: metadata.sourceId });
+	} else if (typeof metadata.documentHash === 'string') {
+		conditions.push({ op: 'eq', key: 'documentHash', value: metadata.documentHash });
+	} else {
+		return undefined;
+	}
+	const namespace = metadata[NAMESPACE_KEY];
+	conditions.push(
+		namespace === undefined
+			? { op: 'not', filter: { op: 'exists', key: NAMESPACE_KEY } }
+			: { op: 'eq', key: NAMESPACE_KEY, value: namespace }
+	);
+	return conditions;
+}
+
+/**
+ * Merges windows that overlap or touch. Expects windows sorted by start.
+ */
+function mergeWindows(windows: Window[]): Window[] {
+	const merged: Window[] = [];
+	for (const window of windows) {
+		const last = merged[merged.length - 1];
+		if (last && window.start <= last.end + 1) {
+			last.end = Math.max(last.end, window.end);
+			if (window.rank < last.rank) {
+				last.rank = window.rank;
+				last.hit = window.hit;
+			}
+		} else {
+			merged.push({ ...window });
+		}
+	}
+	return merged;
+}
+
+/**
+ * Expands each hit with up to `radius` neighbouring chunks on each side from the same
+ * document, merging hits whose windows overlap or touch into a single passage.
+ * Neighbours are joined in `chunkIndex` order with chunk overlap removed. Each passage
+ * keeps the ID, score and metadata of its best-ranked hit and takes that hit's position;
+ * hits without a `chunkIndex` or document are returned unchanged.
+ */
+export async function expandWithNeighbors(
+	hits: RetrievedChunk[],
+	radius: number,
+	fetchChunks: ChunkFetcher
+): Promise<RetrievedChunk[]> {
+	if (radius <= 0 || hits.length === 0) {
+		return hits;
+	}
+
+	// 1. Group hit windows by document
+	const groups = new Map<string, { scope: FilterExpression[]; windows: Window[] }>();
+	const results: { rank: number; chunk: RetrievedChunk }[] = [];
+	hits.forEach((hit, rank) => {
+		const index = hit.metadata?.chunkIndex;
+		const scope = documentScope(hit);
+		if (typeof index !== 'number' || !scope) {
+			results.push({ rank, chunk: hit });
+			return;
+		}
+		const key = JSON.stringify(scope);
+		const group = groups.get(key) ?? { scope, windows: [] };
+		group.windows.push({ start: Math.max(0, index - radius), end: index + radius, rank, hit });
+		groups.set(key, group);
+	});
+
+	// 2. Fetch each document's windows and join them into passages
+	await Promise.all(
+		[...groups.values()].map(async ({ scope, windows }) => {
+			const merged = mergeWindows(windows.sort((a, b) => a.start - b.start));
+			const stored = await fetchChunks({
+				op: 'and',
+				filters: [
+					...scope,
+					{
+						op: 'or',
+						filters: merged.map(({ start, end }) => ({ op: 'range', key: 'chunkIndex', gte: start, lte: end })),
+					},
+				],
+			});
+			const byIndex = new Map<number, string>();
+			for (const chunk of stored) {
+				const index = chunk.metadata.chunkIndex;
+				if (typeof index === 'number' && typeof chunk.content === 'string') {
+					byIndex.set(index, chunk.content);
+				}
+			}
+
+			for (const window of merged) {
+				const indexes = [...byIndex.keys()].filter((i) => i >= window.start && i <= window.end).sort((a, b) => a - b);
+				if (indexes.length === 0) {
+					results.push({ rank: window.rank, chunk: window.hit });
+					continue;
+				}
+				let content = byIndex.get(indexes[0])!;
+				for (let i = 1; i < indexes.length; i++) {
+					const next = byIndex.get(indexes[i])!;
+					content = indexes[i] === indexes[i - 1] + 1 ? joinAdjacent(content, next) : content + '\n[...]\n' + next;
+				}
+				results.push({
+					rank: window.rank,
+					chunk: { ...window.hit, content, chunkRange: { start: indexes[0], end: indexes[indexes.length - 1] } },
+				});
+			}
+		})
+	);
+
+	return results.sort((a, b) => a.rank - b.rank).map(({ chunk }) => chunk);
+}
@@ -0,0 +1,51 @@
+import { RetrievedChunk } from '../types';
+import { IS_PARENT_KEY, PARENT_ID_KEY, payloadToRetrievedChunk } from '../providers/document-chunker';
+import { ChunkFetcher } from './neighbors';
+
+/**
+ * Replaces ranked child chunks with their parent sections. Each parent takes the position
+ * and score of its best-ranked child and lists its matched children in `matchedChunks`.
+ * Chunks without a parent, or whose parent is missing from the store, are returned as they are.
+ * @param limit Maximum number of results; only the parents kept are fetched.
+ */
+export async function resolveParents(hits: RetrievedChunk[], limit: number, fetchChunks: ChunkFetcher): Promise<RetrievedChunk[]> {
+	// 1. Group hits by parent, in rank order, until `limit` results are collected
+	const entries: { parentId?: string; hits: RetrievedChunk[] }[] = [];
+	const byParent = new Map<string, RetrievedChunk[]>();
+	for (const hit of hits) {
+		const parentId = hit.metadata?.[PARENT_ID_KEY];
+		const group = typeof parentId === 'string' ? byParent.get(parentId) : undefined;
+		if (group) {
+			group.push(hit);
+		} else if (entries.length < limit) {
+			const entry = { parentId: typeof parentId === 'string' ? parentId : undefined, hits: [hit] };
+			entries.push(entry);
+			if (entry.parentId) {
+				byParent.set(entry.parentId, entry.hits);
+			}
+		}
+	}
+	if (byParent.size === 0) {
+		return entries.map(({ hits }) => hits[0]);
+	}
+
+	// 2. Fetch the parents and put each in place of its best child
+	const stored = await fetchChunks({
+		op: 'and',
+		filters: [
+			{ op: 'eq', key: IS_PARENT_KEY, value: true },
+			{ op: 'in', key: PARENT_ID_KEY, values: [...byParent.keys()] },
+		],
+	});
+	const parents = new Map(stored.map((parent) => [parent.metadata[PARENT_ID_KEY], parent]));
+	return entries.map(({ parentId, hits }) => {
+		const parent = parentId ? parents.get(parentId) : undefined;
+		if (!parent) {
+			return hits[0];
+		}
+		return {
+			...payloadToRetrievedChunk({ ...parent.metadata, content: parent.content }, hits[0].score, parent.id),
+			matchedChunks: hits,
+		};
+	});
+}
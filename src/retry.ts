@@ -0,0 +1,86 @@
+import { LoggerInterface } from 'ubc-genai-toolkit-core';
+import { RetryPolicy } from './types';
+
+const RETRYABLE_STATUS_CODES = new Set([408, 425, 429, 500, 502, 503, 504]);
+const RETRYABLE_ERROR_CODES = new Set([
+	'ECONNRESET',
+	'ECONNREFUSED',
+	'ECONNABORTED',
+	'ETIMEDOUT',
+	'EPIPE',
+	'EAI_AGAIN',
+	'ENOTFOUND',
+	'UND_ERR_CONNECT_TIMEOUT',
+	'UND_ERR_SOCKET',
+]);
+
+/**
+ * Default classification of transient errors: network failures, timeouts,
+ * and HTTP status codes that indicate overload or temporary unavailability,
+ * whether given as `status`, `statusCode`, `response.status` or a numeric `code`.
+ */
+export function isRetryableError(error: unknown): boolean {
+	if (!error || typeof error !== 'object') {
+		return false;
+	}
+	const err = error as Record<string, any>;
+
+	// ToolkitError (and so every RAGError) carries its HTTP status as a numeric `code`
+	const status = err.status ?? err.statusCode ?? err.response?.status ?? (typeof err.code === 'number' ? err.code : undefined);
+	if (typeof status === 'number') {
+		return RETRYABLE_STATUS_CODES.has(status);
+	}
+	if (typeof err.code === 'string' && RETRYABLE_ERROR_CODES.has(err.code)) {
+		return true;
+	}
+	// Qdrant client timeouts/rate limits and fetch() network failures
+	if (typeof err.name === 'string' && /Timeout|ResourceExhausted|AbortError/.test(err.name)) {
+		return true;
+	}
+	if (err.message === 'fetch failed' || (err.cause && err.cause !== error && isRetryableError(err.cause))) {
+		return true;
+	}
+	return false;
+}
+
+/**
+ * Computes the delay before the given retry (1 = first retry), in milliseconds.
+ */
+function retryDelay(policy: RetryPolicy, retry: number): number {
+	const initial = policy.initialDelayMs ?? 200;
+	const max = policy.maxDelayMs ?? 5000;
+	const multiplier = policy.backoffMultiplier ?? 2;
+	const delay = Math.min(initial * Math.pow(multiplier, retry - 1), max);
+	return (policy.jitter ?? true) ? Math.random() * delay : delay;
+}
+
+/**
+ * Runs an async call, retrying transient failures according to the policy.
+ * The last error is rethrown once attempts are exhausted or the error is not retryable.
+ * @param operation A short name for the call, used in log messages.
+ */
+export async function withRetry<T>(
+	fn: () => Promise<T>,
+	policy: RetryPolicy,
+	logger: LoggerInterface,
+	operation: string
+): Promise<T> {
+	const maxAttempts = Math.max(1, policy.maxAttempts ?? 3);
+	const isRetryable = policy.isRetryable ?? isRetryableError;
+
+	for (let attempt = 1; ; attempt++) {
+		try {
+			return await fn();
+		} catch (error) {
+			if (attempt >= maxAttempts || !isRetryable(error)) {
+				throw error;
+			}
+			const delay = retryDelay(policy, attempt);
+			logger.warn(
+				`${operation} failed (attempt ${attempt}/${maxAttempts}), retrying in ${Math.round(delay)}ms:`,
+				{ error: error instanceof Error ? error.message : String(error) }
+			);
+			await new Promise((resolve) => setTimeout(resolve, delay));
+		}
+	}
+}
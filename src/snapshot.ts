@@ -0,0 +1,127 @@
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { StringDecoder } from 'string_decoder';
+import { SnapshotHeader, StoredPoint } from './types';
+import { RAGConfigurationError } from './errors';
+
+export const SNAPSHOT_FORMAT = 'ubc-genai-toolkit-rag-snapshot';
+export const SNAPSHOT_VERSION = 1;
+
+/**
+ * Writes a snapshot: the header line, then one JSON line per point.
+ * Honors backpressure and ends the stream when done.
+ * @returns The number of points written.
+ */
+export async function writeSnapshot(
+	stream: NodeJS.WritableStream,
+	header: SnapshotHeader,
+	pages: AsyncIterable<StoredPoint[]>,
+	onProgress?: (points: number) => void
+): Promise<number> {
+	let written = 0;
+	async function* lines(): AsyncGenerator<string> {
+		yield JSON.stringify(header) + '\n';
+		for await (const page of pages) {
+			if (page.length === 0) {
+				continue;
+			}
+			yield page.map(({ id, vector, payload }) => JSON.stringify({ id, vector, payload })).join('\n') + '\n';
+			written += page.length;
+			onProgress?.(written);
+		}
+	}
+	await pipeline(Readable.from(lines()), stream);
+	return written;
+}
+
+/**
+ * Reads a snapshot written by `writeSnapshot`, passing the validated header to `onHeader`
+ * before any points, then the points in batches of `batchSize` to `onBatch`.
+ * @returns The header and the number of points read.
+ */
+export async function readSnapshot(
+	stream: NodeJS.ReadableStream,
+	batchSize: number,
+	onHeader: (header: SnapshotHeader) => void | Promise<void>,
+	onBatch: (points: StoredPoint[]) => Promise<void>
+): Promise<{ header: SnapshotHeader; points: number }> {
+	let header: SnapshotHeader | undefined;
+	let batch: StoredPoint[] = [];
+	let points = 0;
+	let lineNumber = 0;
+	for await (const line of readLines(stream)) {
+		lineNumber++;
+		if (line.trim().length === 0) {
+			continue;
+		}
+		const record = parseLine(line, lineNumber);
+		if (!header) {
+			header = parseHeader(record);
+			await onHeader(header);
+			continue;
+		}
+		batch.push(parsePoint(record, lineNumber));
+		if (batch.length >= batchSize) {
+			await onBatch(batch);
+			points += batch.length;
+			batch = [];
+		}
+	}
+	if (!header) {
+		throw new RAGConfigurationError('Snapshot is empty.', { operation: 'import' });
+	}
+	if (batch.length > 0) {
+		await onBatch(batch);
+		points += batch.length;
+	}
+	return { header, points };
+}
+
+/**
+ * Splits a text stream into lines without buffering more than one incomplete line.
+ */
+async function* readLines(stream: NodeJS.ReadableStream): AsyncGenerator<string> {
+	const decoder = new StringDecoder('utf8');
+	let buffered = '';
+	for await (const chunk of stream) {
+		buffered += typeof chunk === 'string' ? chunk : decoder.write(chunk);
+		const lines = buffered.split('\n');
+		buffered = lines.pop()!;
+		yield* lines;
+	}
+	buffered += decoder.end();
+	if (buffered.length > 0) {
+		yield buffered;
+	}
+}
+
+function parseLine(line: string, lineNumber: number): Record<string, any> {
+	try {
+		return JSON.parse(line);
+	} catch {
+		throw new RAGConfigurationError(`Snapshot line ${lineNumber} is not valid JSON.`, { operation: 'import' });
+	}
+}
+
+function parseHeader(record: Record<string, any>): SnapshotHeader {
+	if (record.format !== SNAPSHOT_FORMAT) {
+		throw new RAGConfigurationError('Stream is not a RAG snapshot: the first line is not a snapshot header.', {
+			operation: 'import',
+		});
+	}
+	if (record.version !== SNAPSHOT_VERSION) {
+		throw new RAGConfigurationError(`Unsupported snapshot version ${record.version}; expected ${SNAPSHOT_VERSION}.`, {
+			operation: 'import',
+		});
+	}
+	return record as SnapshotHeader;
+}
+
+function parsePoint(record: Record<string, any>, lineNumber: number): StoredPoint {
+	const { id, vector, payload } = record;
+	const validId = typeof id === 'string' || (Number.isInteger(id) && id >= 0);
+	if (!validId || !Array.isArray(vector) || typeof payload !== 'object' || payload === null) {
+		throw new RAGConfigurationError(`Snapshot line ${lineNumber} is not a valid point.`, { operation: 'import' });
+	}
+	return { id, vector, payload };
+}
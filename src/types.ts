@@ -1,12 +1,14 @@
 import { LoggerInterface } from 'ubc-genai-toolkit-core';
-import { EmbeddingsConfig } from 'ubc-genai-toolkit-embeddings';
+import { EmbeddingsConfig, EmbeddingsModule } from 'ubc-genai-toolkit-embeddings';
 import { ChunkingConfig } from 'ubc-genai-toolkit-chunking';
 
 /**
  * Defines the supported RAG providers.
- * Currently only supports 'qdrant'.
+ * - 'qdrant': A Qdrant vector database.
+ * - 'memory': An in-process, non-persistent store for tests and offline use.
+ * - 'file': An in-process store persisted to a local directory.
  */
-export type RAGProviderType = 'qdrant'; // Add more providers like 'pinecone', etc. later
+export type RAGProviderType = 'qdrant' | 'memory' | 'file'; // Add more providers like 'pinecone', etc. later
 
 /**
  * Defines the supported distance metrics for Qdrant.
@@ -14,6 +16,46 @@ export type RAGProviderType = 'qdrant'; // Add more providers like 'pinecone', e
  */
 export type QdrantDistanceMetric = 'Cosine' | 'Euclid' | 'Dot';
 
+/**
+ * What to do when an existing collection does not match the configured vector schema.
+ * - 'fail': Throw during initialization (default).
+ * - 'warn': Log a warning and continue; inserts and searches will likely fail later.
+ * - 'recreate': Delete the collection and create it again with the configured schema.
+ *   All stored documents are lost and must be re-ingested.
+ */
+export type SchemaMismatchPolicy = 'fail' | 'warn' | 'recreate';
+
+/**
+ * Types of payload index supported by Qdrant.
+ * - 'keyword': Exact matches on strings (`eq`, `in`).
+ * - 'integer' / 'float': Exact matches and ranges on numbers.
+ * - 'bool', 'datetime', 'uuid', 'geo': Values of those types.
+ * - 'text': Full-text matching, used by keyword search on `content`.
+ */
+export type PayloadIndexType = 'keyword' | 'integer' | 'float' | 'bool' | 'datetime' | 'text' | 'uuid' | 'geo';
+
+/**
+ * A payload field to index, so filters on it avoid scanning the whole collection.
+ */
+export interface PayloadIndexConfig {
+	/** The payload field, using dots for nested keys (e.g., 'course.code'). */
+	field: string;
+	/** The index type, matching the values stored in the field. */
+	type: PayloadIndexType;
+}
+
+/**
+ * A payload index that exists in the store.
+ */
+export interface PayloadIndexInfo {
+	/** The indexed payload field. */
+	field: string;
+	/** The index type. */
+	type: PayloadIndexType;
+	/** Number of points covered by the index. */
+	indexedPoints: number;
+}
+
 /**
  * Configuration specific to the Qdrant RAG provider.
  */
@@ -28,16 +70,173 @@ export interface QdrantConfig {
 	vectorSize: number;
 	/** The distance metric to use for vector comparison. Required for collection creation. */
 	distanceMetric: QdrantDistanceMetric;
+	/**
+	 * How to handle an existing collection whose vector size or distance metric differs
+	 * from `vectorSize` and `distanceMetric`. Also applies when the embeddings module
+	 * produces vectors of a different size than `vectorSize`. Defaults to 'fail'.
+	 */
+	onSchemaMismatch?: SchemaMismatchPolicy;
+	/**
+	 * Metadata fields to index for fast filtering. `initialize` creates missing indexes and
+	 * recreates any whose type differs; indexes not listed here are left in place.
+	 * `namespace`, `sourceId` and `chunkHash` are always indexed as keywords.
+	 * Keyword and hybrid search need a `text` index on `content`; it is added automatically
+	 * when `defaultRetrievalMode` is 'keyword' or 'hybrid' or `hybridSearch` is set.
+	 */
+	payloadIndexes?: PayloadIndexConfig[];
+}
+
+/**
+ * Configuration specific to the in-memory RAG provider.
+ * Stored vectors live only as long as the provider instance.
+ */
+export interface MemoryConfig {
+	/**
+	 * The expected size (dimensionality) of stored vectors. Optional.
+	 * If set, vectors of any other size are rejected on insert.
+	 */
+	vectorSize?: number;
+	/** The distance metric to use for vector comparison. Defaults to 'Cosine'. */
+	distanceMetric?: QdrantDistanceMetric;
+}
+
+/**
+ * Configuration specific to the file-backed RAG provider.
+ * Vectors are searched in memory like the in-memory provider, and every change is also
+ * appended to segment files in `directory`, so the store survives restarts.
+ * Only one process may use a directory at a time.
+ */
+export interface FileConfig extends MemoryConfig {
+	/** Directory holding the store's manifest and segment files. Created if missing. */
+	directory: string;
+	/** Size at which the active segment file is closed and a new one started. Defaults to 64 MiB. */
+	segmentMaxBytes?: number;
+}
+
+/**
+ * Defines how context chunks are retrieved.
+ * - 'vector': Dense similarity search over embeddings (default).
+ * - 'keyword': BM25 keyword ranking over chunk text.
+ * - 'hybrid': Both of the above, fused into a single ranking.
+ */
+export type RetrievalMode = 'vector' | 'keyword' | 'hybrid';
+
+/**
+ * Configuration for hybrid (vector + keyword) retrieval.
+ */
+export interface HybridSearchConfig {
+	/**
+	 * How the vector and keyword rankings are combined. Defaults to 'rrf'.
+	 * - 'rrf': Reciprocal Rank Fusion, which uses only the rank of each chunk in each list.
+	 * - 'weighted': A weighted sum of min-max normalized scores.
+	 */
+	fusion?: 'rrf' | 'weighted';
+	/** Weight of the vector ranking. Defaults to 0.5. */
+	vectorWeight?: number;
+	/** Weight of the keyword ranking. Defaults to 0.5. */
+	keywordWeight?: number;
+	/** The `k` constant for Reciprocal Rank Fusion. Larger values flatten rank differences. Defaults to 60. */
+	rrfK?: number;
+	/** Each ranking fetches `limit * candidateMultiplier` candidates before fusion. Defaults to 3. */
+	candidateMultiplier?: number;
+}
+
+/**
+ * A reranking stage applied to retrieved chunks before they are returned.
+ * Implementations rescore the candidates for the query and return them best first;
+ * they may drop chunks but should not add new ones.
+ */
+export interface Reranker {
+	/**
+	 * Rescores candidate chunks for a query.
+	 * @param queryText The user's query text.
+	 * @param chunks The candidate chunks, in retrieval order.
+	 * @returns A promise resolving to the chunks with updated scores, best first.
+	 */
+	rerank(queryText: string, chunks: RetrievedChunk[]): Promise<RetrievedChunk[]>;
+}
+
+/**
+ * Hit and miss counts of an embedding cache.
+ */
+export interface EmbeddingCacheStats {
+	/** Lookups that returned a cached vector. */
+	hits: number;
+	/** Lookups that found no vector, or only an expired one. */
+	misses: number;
+	/** Number of vectors currently cached. */
+	size: number;
+}
+
+/**
+ * A cache of embedding vectors, consulted before the embeddings module is called for query
+ * and chunk texts. Keys combine the embedding model identity and a hash of the text, so
+ * vectors are never shared between models. Implementations decide eviction and expiry.
+ */
+export interface EmbeddingCache {
+	/**
+	 * Returns the cached vector for a key, or undefined if there is none or it has expired.
+	 */
+	get(key: string): Promise<number[] | undefined>;
+	/**
+	 * Stores a vector under a key, replacing any previous one.
+	 */
+	set(key: string, vector: number[]): Promise<void>;
+	/**
+	 * Removes every cached vector.
+	 */
+	clear(): Promise<void>;
+	/**
+	 * Returns the hit and miss counts since the cache was created.
+	 */
+	stats(): EmbeddingCacheStats;
+}
+
+/**
+ * Retry policy for embedding and vector store calls that fail transiently.
+ * Delays grow exponentially: `initialDelayMs * backoffMultiplier^(attempt - 1)`, capped at `maxDelayMs`.
+ */
+export interface RetryPolicy {
+	/** Total attempts per call, including the first. Set to 1 to disable retries. Defaults to 3. */
+	maxAttempts?: number;
+	/** Delay before the first retry, in milliseconds. Defaults to 200. */
+	initialDelayMs?: number;
+	/** Upper bound on any single delay, in milliseconds. Defaults to 5000. */
+	maxDelayMs?: number;
+	/** Factor applied to the delay after each failed attempt. Defaults to 2. */
+	backoffMultiplier?: number;
+	/** Randomize each delay between 0 and its computed value ("full jitter"). Defaults to true. */
+	jitter?: boolean;
+	/**
+	 * Decides whether an error is worth retrying. Defaults to retrying network errors,
+	 * timeouts and HTTP 408, 425, 429, 500, 502, 503 and 504 responses.
+	 */
+	isRetryable?: (error: unknown) => boolean;
+}
+
+/**
+ * Settings for splitting documents into parent sections for hierarchical indexing.
+ * Sections are split by character count, like the default chunker.
+ */
+export interface ParentChunkingConfig {
+	/** Maximum characters per parent section. Defaults to 2000. */
+	chunkSize?: number;
+	/** Characters shared between consecutive sections. Defaults to 0. */
+	overlap?: number;
 }
 
 /**
  * Main configuration for the RAGModule.
  */
-export interface RAGConfig {
+export interface RAGConfig<TMetadata extends Record<string, any> = Record<string, any>> {
 	/** The type of RAG provider to use (e.g., 'qdrant'). */
 	provider: RAGProviderType;
-	/** Provider-specific configuration. */
-	qdrantConfig: QdrantConfig; // Add other provider configs later (e.g., | PineconeConfig)
+	/** Provider-specific configuration. Required when `provider` is 'qdrant'. */
+	qdrantConfig?: QdrantConfig; // Add other provider configs later (e.g., | PineconeConfig)
+	/** Configuration for the in-memory provider. Optional when `provider` is 'memory'. */
+	memoryConfig?: MemoryConfig;
+	/** Configuration for the file-backed provider. Required when `provider` is 'file'. */
+	fileConfig?: FileConfig;
 	/** Configuration for the Embeddings module if managed internally. Optional. */
 	embeddingsConfig?: EmbeddingsConfig;
 	/**
@@ -46,6 +245,14 @@ export interface RAGConfig {
 	 * Can be a configuration object for the `ChunkingModule` or a custom function.
 	 */
 	chunkingConfig?: ChunkingConfig | ((content: string) => string[]);
+	/**
+	 * Enables hierarchical (small-to-big) indexing. Each document is first split into parent
+	 * sections, which are stored once but not searched, and each section is then split into
+	 * child chunks with `chunkingConfig`. Every child records its section as `parentId`.
+	 * Retrieve with `returnParents` to get the sections instead of the matched chunks.
+	 * Can be a configuration object or a custom function returning the sections.
+	 */
+	parentChunking?: ParentChunkingConfig | ((content: string) => string[]);
 	/** Optional logger instance conforming to LoggerInterface. */
 	logger?: LoggerInterface;
 	/** Enable debug logging. Defaults to false. */
@@ -54,18 +261,661 @@ export interface RAGConfig {
 	defaultRetrievalLimit?: number;
 	/** Default minimum score threshold for retrieved chunks. Optional. */
 	defaultScoreThreshold?: number;
+	/** Default retrieval mode. Defaults to 'vector'. */
+	defaultRetrievalMode?: RetrievalMode;
+	/** Fusion settings used when retrieving in 'hybrid' mode. Optional. */
+	hybridSearch?: HybridSearchConfig;
+	/** Optional reranker applied to retrieved candidates before they are returned. */
+	reranker?: Reranker;
+	/**
+	 * Default number of candidates fetched for the reranker, which then cuts them down to `limit`.
+	 * Defaults to three times the retrieval limit.
+	 */
+	defaultRerankCandidates?: number;
+	/**
+	 * Retry policy for embedding and vector store calls. Each individual call (e.g., one
+	 * upsert batch) is retried, never a whole operation, so retries cannot duplicate data.
+	 * Retries up to 3 attempts by default.
+	 */
+	retry?: RetryPolicy;
+	/**
+	 * Embed a short probe text during initialization and check that the embeddings module's
+	 * output dimension matches the configured vector size. Costs one embedding call at startup.
+	 * Defaults to true.
+	 */
+	verifyEmbeddingDimension?: boolean;
+	/**
+	 * Identity of the embedding model, stamped on every stored chunk as `embeddingModel`.
+	 * Stored embeddings are only reused for chunks stamped with the same identity, and a
+	 * Qdrant collection stamped with a different model is treated as a schema mismatch.
+	 * Defaults to `<provider>/<model>` from `embeddingsConfig`. Set it explicitly to
+	 * version a model whose name does not change (e.g., a self-hosted model).
+	 */
+	embeddingModelId?: string;
+	/**
+	 * Cache for query and chunk embeddings, so repeated texts (e.g., frequently asked
+	 * questions) are not embedded again. Defaults to an in-memory LRU cache of 1000 vectors
+	 * without expiry; pass a `FileEmbeddingCache` to keep vectors across restarts, or
+	 * `false` to disable caching.
+	 */
+	embeddingCache?: EmbeddingCache | false;
+	/**
+	 * Optional runtime schema for document metadata, e.g. a zod schema. Metadata passed to
+	 * `addDocument`, `upsertDocument` and `addDocuments` is replaced by the schema's output,
+	 * and a schema error fails the call with a `MetadataValidationError`.
+	 */
+	metadataSchema?: MetadataSchema<TMetadata>;
 }
 
+/**
+ * A scalar value that metadata can be compared against in a filter.
+ */
+export type FilterValue = string | number | boolean;
+
+/** Matches when every sub-filter matches. */
+export interface AndFilter {
+	op: 'and';
+	filters: FilterExpression[];
+}
+
+/** Matches when at least one sub-filter matches. */
+export interface OrFilter {
+	op: 'or';
+	filters: FilterExpression[];
+}
+
+/** Matches when the sub-filter does not match. */
+export interface NotFilter {
+	op: 'not';
+	filter: FilterExpression;
+}
+
+/** Matches when the field equals `value`. */
+export interface EqFilter {
+	op: 'eq';
+	/** The metadata field. Nested fields use dot notation (e.g., 'chunkMetadata.page'). */
+	key: string;
+	value: FilterValue;
+}
+
+/** Matches when the field equals any of `values`. */
+export interface InFilter {
+	op: 'in';
+	/** The metadata field. Nested fields use dot notation (e.g., 'chunkMetadata.page'). */
+	key: string;
+	values: FilterValue[];
+}
+
+/** Matches when the numeric field lies within the given bounds. At least one bound should be set. */
+export interface RangeFilter {
+	op: 'range';
+	/** The metadata field. Nested fields use dot notation (e.g., 'chunkMetadata.page'). */
+	key: string;
+	gt?: number;
+	gte?: number;
+	lt?: number;
+	lte?: number;
+}
+
+/** Matches when the field is present and is not null or an empty array. */
+export interface ExistsFilter {
+	op: 'exists';
+	/** The metadata field. Nested fields use dot notation (e.g., 'chunkMetadata.page'). */
+	key: string;
+}
+
+/**
+ * A provider-neutral filter expression over chunk metadata.
+ * Every provider translates this into its native filtering mechanism.
+ * When a field holds an array, a condition matches if any element satisfies it.
+ */
+export type FilterExpression =
+	| AndFilter
+	| OrFilter
+	| NotFilter
+	| EqFilter
+	| InFilter
+	| RangeFilter
+	| ExistsFilter;
+
+/**
+ * A metadata filter accepted by retrieval and deletion methods.
+ * Either a `FilterExpression`, or a plain object shorthand where chunks must match
+ * all key-value pairs exactly (e.g., `{ courseId: 'CPSC110' }`).
+ * The shorthand cannot express a field literally named `op`; use an `eq` expression instead.
+ * Shorthand values are typed loosely so filters written as `Record<string, any>` still compile,
+ * but only `FilterValue`s (strings, numbers and booleans) can ever match.
+ */
+export type MetadataFilter = FilterExpression | Record<string, any>;
+
+/**
+ * Validates and normalizes document metadata at runtime. Compatible with zod schemas,
+ * or any object whose `parse` returns the metadata and throws if it is invalid.
+ */
+export interface MetadataSchema<TMetadata extends Record<string, any> = Record<string, any>> {
+	parse(metadata: unknown): TMetadata;
+}
+
+/**
+ * Fields the module stores alongside user metadata on every chunk. Apart from `sourceId`
+ * and `namespace`, they are reserved: metadata using them is rejected on ingestion.
+ */
+export interface SystemMetadata {
+	/** ID of the document the chunk belongs to (see `upsertDocument`). */
+	sourceId?: string;
+	/** Tenant namespace of the chunk (see `forNamespace`). */
+	namespace?: string;
+	/** Position of the chunk in its document. */
+	chunkIndex?: number;
+	/** Character offset at which the chunk (or parent section) starts in its document. */
+	chunkStart?: number;
+	/** SHA-256 hash of the chunk text. */
+	chunkHash?: string;
+	/** SHA-256 hash of the whole document. */
+	documentHash?: string;
+	/** Identity of the model that embedded the chunk. */
+	embeddingModel?: string;
+	/** Chunk-specific metadata produced by the `ChunkingModule`. */
+	chunkMetadata?: Record<string, any>;
+	/** ID of the chunk's parent section (hierarchical indexing only). */
+	parentId?: string;
+	/** Position of the chunk's parent section in the document (hierarchical indexing only). */
+	parentIndex?: number;
+	/** Marks a parent section (hierarchical indexing only). */
+	isParent?: boolean;
+}
+
+/**
+ * The metadata of a stored chunk: the document's metadata plus the fields the module adds.
+ */
+export type ChunkMetadata<TMetadata extends Record<string, any> = Record<string, any>> = TMetadata & SystemMetadata;
+
 /**
  * Represents a single chunk of context retrieved from the vector store.
  */
-export interface RetrievedChunk {
+export interface RetrievedChunk<TMetadata extends Record<string, any> = Record<string, any>> {
+	/** The ID of the chunk in the vector store, when known. */
+	id?: string;
 	/** The text content of the retrieved chunk. */
 	content: string;
 	/** The similarity score of the chunk (higher is typically better). */
 	score: number;
 	/** Optional metadata associated with the chunk. */
-	metadata?: Record<string, any>; // Using Record<string, any> for flexibility
+	metadata?: ChunkMetadata<TMetadata>;
+	/** The stored vector of the chunk. Only present when `includeVectors` was requested. */
+	vector?: number[];
+	/**
+	 * The `chunkIndex` range covered when neighbouring chunks were merged into this result
+	 * (see `expandNeighbors`). `id`, `score` and `metadata` are those of the best-ranked hit.
+	 */
+	chunkRange?: { start: number; end: number };
+	/** The matched child chunks of a parent section returned with `returnParents`, best first. */
+	matchedChunks?: RetrievedChunk<TMetadata>[];
+}
+
+/**
+ * Options for assembling retrieved chunks into a prompt context block.
+ */
+export interface ContextBuildOptions {
+	/** Maximum size of the context block, in tokens. Defaults to 2000. */
+	maxTokens?: number;
+	/**
+	 * Counts the tokens in a text. Defaults to an estimate of one token per four characters;
+	 * pass the model's tokenizer for an exact budget.
+	 */
+	countTokens?: (text: string) => number;
+	/**
+	 * Instruction placed above the sources. Defaults to asking the model to cite sources by
+	 * number. Set to an empty string to omit it.
+	 */
+	header?: string;
+	/**
+	 * Returns the label shown next to a source's citation number.
+	 * Defaults to the first of `title`, `source` or `sourceId` in the chunk metadata.
+	 */
+	formatLabel?: (metadata: Record<string, any>) => string;
+}
+
+/**
+ * A numbered source in a built context, mapping a citation back to its chunks.
+ */
+export interface ContextSource {
+	/** The citation number, as it appears in the context text (e.g., 1 for "[1]"). */
+	number: number;
+	/** The label shown next to the citation number. */
+	label: string;
+	/** The document the chunks belong to (`sourceId`), if known. */
+	documentId?: string;
+	/** Metadata of the source's first chunk. */
+	metadata: Record<string, any>;
+	/** The chunks included under this citation, in document order. */
+	chunks: RetrievedChunk[];
+}
+
+/**
+ * A prompt-ready context block built from retrieved chunks.
+ */
+export interface BuiltContext {
+	/** The context text, with one numbered section per source. Empty if nothing fit. */
+	text: string;
+	/** The numbered sources, in the order they appear in the text. */
+	sources: ContextSource[];
+	/** Token count of `text`, using the configured counter. */
+	tokenCount: number;
+	/** Chunks left out because they were duplicates or did not fit in the budget. */
+	omitted: RetrievedChunk[];
+}
+
+/**
+ * Describes what an upsert changed in the vector store.
+ * Chunks are compared by content hash, so only new or edited text is re-embedded.
+ */
+export interface DocumentUpsertReport {
+	/** The ID of the upserted document. */
+	documentId: string;
+	/** SHA-256 hash of the document content, stored as `documentHash` on every chunk. */
+	documentHash: string;
+	/** The document's current chunk IDs, in chunk order. */
+	chunkIds: string[];
+	/** IDs of the document's parent sections, in order. Empty unless hierarchical indexing is enabled. */
+	parentIds: string[];
+	/** IDs of chunks whose text had no stored embedding and was embedded. */
+	added: string[];
+	/** IDs of chunks whose stored embedding was reused because their text hash already existed. */
+	kept: string[];
+	/** IDs of chunks from the previous version that were removed. */
+	removed: string[];
+}
+
+/**
+ * A document to ingest with `addDocuments`.
+ */
+export interface DocumentInput<TMetadata extends Record<string, any> = Record<string, any>> {
+	/**
+	 * Optional stable document ID. When set, the document is upserted (replacing any
+	 * previous version, as with `upsertDocument`); otherwise it is added as new chunks.
+	 */
+	documentId?: string;
+	/** The text content of the document. */
+	content: string;
+	/** Optional metadata to associate with the document's chunks. */
+	metadata?: TMetadata;
+}
+
+/**
+ * The outcome of ingesting one document of a batch.
+ */
+export interface DocumentIngestResult {
+	/** Position of the document in the input array. */
+	index: number;
+	/** The document ID, if one was given. */
+	documentId?: string;
+	/** SHA-256 hash of the document content. */
+	documentHash: string;
+	/** The document's chunk IDs, in chunk order. */
+	chunkIds: string[];
+	/** IDs of the document's parent sections, in order. Empty unless hierarchical indexing is enabled. */
+	parentIds: string[];
+	/** IDs of chunks that were newly embedded. */
+	added: string[];
+	/** IDs of chunks that reused a stored embedding. */
+	kept: string[];
+	/** IDs of chunks from a previous version that were removed (upserts only). */
+	removed: string[];
+}
+
+/**
+ * A document of a batch that could not be ingested.
+ */
+export interface DocumentIngestFailure {
+	/** Position of the document in the input array. */
+	index: number;
+	/** The document ID, if one was given. */
+	documentId?: string;
+	/** The error that caused the failure. */
+	error: Error;
+}
+
+/**
+ * Progress of a batch ingestion, reported after each document finishes.
+ * Exactly one of `result` or `failure` is set.
+ */
+export interface IngestProgress {
+	/** Number of documents finished so far (succeeded or failed). */
+	completed: number;
+	/** Total number of documents in the batch. */
+	total: number;
+	/** The document's result, if it succeeded. */
+	result?: DocumentIngestResult;
+	/** The document's failure, if it failed. */
+	failure?: DocumentIngestFailure;
+}
+
+/**
+ * Options for batch ingestion with `addDocuments`.
+ */
+export interface BatchIngestOptions {
+	/**
+	 * Maximum number of documents processed at once, and of embeddings calls running at once.
+	 * A new document starts as soon as another finishes. Must be a positive integer. Defaults to 4.
+	 */
+	concurrency?: number;
+	/**
+	 * Maximum number of texts per embeddings call. Chunks from all documents in flight
+	 * are pooled into batches of this size. Must be a positive integer. Defaults to 64.
+	 */
+	embedBatchSize?: number;
+	/** Called as soon as each document succeeds or fails. */
+	onProgress?: (progress: IngestProgress) => void;
+}
+
+/**
+ * The outcome of a batch ingestion. A failing document does not abort the batch.
+ */
+export interface BatchIngestResult {
+	/** Documents that were ingested, in input order. */
+	succeeded: DocumentIngestResult[];
+	/** Documents that failed, in input order. */
+	failed: DocumentIngestFailure[];
+}
+
+/**
+ * Options for re-embedding a collection with a new embedding model.
+ */
+export interface EmbeddingMigrationOptions {
+	/** Embeddings configuration for the new model. */
+	embeddingsConfig: EmbeddingsConfig;
+	/** The size (dimensionality) of the new model's vectors. */
+	vectorSize: number;
+	/** Distance metric for the new collection. Defaults to the current metric. */
+	distanceMetric?: QdrantDistanceMetric;
+	/** Identity of the new model. Defaults to `<provider>/<model>` from `embeddingsConfig`. */
+	embeddingModelId?: string;
+	/** Name of the collection to create. Defaults to `<collectionName>_<timestamp>`. */
+	targetCollection?: string;
+	/** Number of chunks read, embedded and written per step. Defaults to 64. */
+	batchSize?: number;
+	/** Delete the previous collection once the alias points at the new one. Defaults to false. */
+	deleteSource?: boolean;
+	/** Called after each batch is written to the new collection. */
+	onProgress?: (progress: EmbeddingMigrationProgress) => void;
+}
+
+/**
+ * Progress of an embedding migration.
+ */
+export interface EmbeddingMigrationProgress {
+	/** Chunks written to the new collection so far. */
+	migrated: number;
+	/** Chunks in the source collection when the migration started. */
+	total: number;
+}
+
+/**
+ * The outcome of an embedding migration.
+ */
+export interface EmbeddingMigrationResult {
+	/** The alias that queries use; equals the configured `collectionName`. */
+	alias: string;
+	/** The collection the alias pointed at before the migration. */
+	sourceCollection: string;
+	/** The newly created collection the alias now points at. */
+	targetCollection: string;
+	/** Identity of the model that produced the new vectors. */
+	embeddingModel?: string;
+	/** Number of chunks re-embedded. */
+	migrated: number;
+	/** Whether the source collection was deleted. */
+	sourceDeleted: boolean;
+}
+
+/**
+ * A point as held by the vector store: a chunk's ID, vector and full payload (including `content`).
+ */
+export interface StoredPoint {
+	/** The point ID. Integer IDs (possible in Qdrant collections) stay numbers, so they can be imported back. */
+	id: string | number;
+	vector: number[];
+	payload: Record<string, any>;
+}
+
+/**
+ * Options for listing stored points page by page.
+ */
+export interface PointListOptions {
+	/** Only list points matching this filter. Defaults to all points. */
+	filter?: MetadataFilter;
+	/** Maximum number of points per page. Defaults to 100. */
+	pageSize?: number;
+	/** Include each point's vector. Defaults to false. */
+	withVectors?: boolean;
+	/**
+	 * Top-level payload fields to return, e.g. `['sourceId', 'title']`. Include `'content'`
+	 * to get the chunk text. Defaults to the whole payload.
+	 */
+	fields?: string[];
+	/** Cursor from a previous page's `nextCursor`, to continue listing after it. */
+	cursor?: string;
+}
+
+/**
+ * A stored point as returned by point listing.
+ */
+export interface PointRecord {
+	id: string;
+	/** The chunk text, unless `fields` excluded it. */
+	content?: string;
+	/** The payload without `content`, restricted to `fields` if given. */
+	metadata: Record<string, any>;
+	/** The stored vector. Only present when `withVectors` was requested. */
+	vector?: number[];
+}
+
+/**
+ * One page of listed points.
+ */
+export interface PointPage {
+	records: PointRecord[];
+	/** Pass as `cursor` to get the next page. Undefined on the last page. */
+	nextCursor?: string;
+}
+
+/**
+ * Options for listing indexed documents.
+ */
+export interface DocumentListOptions {
+	/** Only list documents with a chunk matching this filter. Defaults to all documents. */
+	filter?: MetadataFilter;
+	/**
+	 * Metadata fields to return for each document, taken from its first chunk,
+	 * e.g. `['title', 'courseId']`. Defaults to none.
+	 */
+	fields?: string[];
+	/** Chunks read per request while scanning the store. Defaults to 100. */
+	pageSize?: number;
+}
+
+/**
+ * An indexed document, as listed by `listDocuments`.
+ */
+export interface DocumentSummary {
+	/** The document's `sourceId`. */
+	documentId: string;
+	/** The namespace the document belongs to, if any. */
+	namespace?: string;
+	/** SHA-256 hash of the document content. */
+	documentHash?: string;
+	/** Number of searchable chunks stored for the document. */
+	chunkCount: number;
+	/** The requested `fields` of the document's first chunk. */
+	metadata: Record<string, any>;
+}
+
+/**
+ * An indexed document reassembled from its chunks, as returned by `getDocument`.
+ */
+export interface StoredDocument {
+	/** The ID the document was looked up by. */
+	documentId: string;
+	/** The namespace the document belongs to, if any. */
+	namespace?: string;
+	/** SHA-256 hash of the document content. */
+	documentHash?: string;
+	/**
+	 * The document text, rebuilt by placing each chunk at its stored `chunkStart` offset, in
+	 * `chunkIndex` order. Documents stored with hierarchical indexing are rebuilt from their
+	 * parent sections. Chunks stored without offsets are joined by removing the overlap
+	 * found between neighbouring chunks.
+	 */
+	content: string;
+	/** The document's chunk IDs, in chunk order. */
+	chunkIds: string[];
+	/** Metadata of the first chunk, without chunk-specific fields. */
+	metadata: Record<string, any>;
+}
+
+/**
+ * The first line of a snapshot, identifying the format and describing the exported store.
+ */
+export interface SnapshotHeader {
+	format: 'ubc-genai-toolkit-rag-snapshot';
+	/** Snapshot format version. */
+	version: number;
+	/** The provider the snapshot was exported from. */
+	provider: RAGProviderType;
+	/** The configured vector size of the exported store, if known. */
+	vectorSize?: number;
+	distanceMetric: QdrantDistanceMetric;
+	/** Identity of the embedding model that produced the vectors. */
+	embeddingModel?: string;
+	/** ISO 8601 time of the export. */
+	createdAt: string;
+}
+
+/**
+ * Options for `exportStorage` and `importStorage`.
+ */
+export interface SnapshotOptions {
+	/** Number of points read from or written to the store at a time. Defaults to 256. */
+	batchSize?: number;
+	/** Called after each batch with the number of points exported or imported so far. */
+	onProgress?: (points: number) => void;
+}
+
+/**
+ * The outcome of a snapshot export or import.
+ */
+export interface SnapshotResult {
+	header: SnapshotHeader;
+	/** Number of points exported or imported. */
+	points: number;
+}
+
+/**
+ * State of the vector index, using Qdrant's collection status colours.
+ * - 'green': Fully indexed and ready.
+ * - 'yellow': Optimizing or indexing; searches work but may be slower.
+ * - 'grey': Optimizations are pending or paused.
+ * - 'red': An optimization failed; see `optimizerError`.
+ * The in-memory and file-backed providers are always 'green'.
+ */
+export type IndexStatus = 'green' | 'yellow' | 'grey' | 'red';
+
+/**
+ * Storage details reported by a provider.
+ */
+export interface ProviderStats {
+	/** Where the points are stored: the Qdrant collection an alias resolves to, or the file store's directory. */
+	storageName?: string;
+	/** Number of stored points, including parent sections. */
+	pointCount: number;
+	/** Number of vectors already in the search index, if the provider reports it. */
+	indexedVectorCount?: number;
+	/** Size of the stored vectors, if known. */
+	vectorSize?: number;
+	distanceMetric: QdrantDistanceMetric;
+	indexStatus: IndexStatus;
+	/** The error that stopped the optimizer, when `indexStatus` is 'red'. */
+	optimizerError?: string;
+	/** Payload indexes in the store. Empty for providers without payload indexes. */
+	payloadIndexes: PayloadIndexInfo[];
+}
+
+/**
+ * Options for collecting storage statistics.
+ */
+export interface StatsOptions {
+	/**
+	 * Count distinct documents. Requires reading the `sourceId` of every chunk, so it can be
+	 * slow on large stores. Defaults to true.
+	 */
+	countDocuments?: boolean;
+}
+
+/**
+ * Statistics about the stored data and its configuration.
+ */
+export interface StorageStats extends ProviderStats {
+	provider: RAGProviderType;
+	/** Number of searchable chunks, excluding parent sections. */
+	chunkCount: number;
+	/** Number of parent sections stored by hierarchical indexing. */
+	parentCount: number;
+	/** Number of distinct documents (see `listDocuments`). Omitted when `countDocuments` is false. */
+	documentCount?: number;
+	/** Identity of the embedding model queries are embedded with. */
+	embeddingModel?: string;
+	/** Embedding cache hit and miss counts, if caching is enabled. */
+	embeddingCache?: EmbeddingCacheStats;
+}
+
+/**
+ * Options for a health check.
+ */
+export interface HealthCheckOptions {
+	/** Also embed a short text to check the embeddings provider. Defaults to false. */
+	checkEmbeddings?: boolean;
+	/** Time after which a check is reported as failed, in milliseconds. Defaults to 5000. */
+	timeoutMs?: number;
+}
+
+/**
+ * The outcome of checking one dependency.
+ */
+export interface ComponentHealth {
+	healthy: boolean;
+	/** How long the check took, in milliseconds. */
+	latencyMs: number;
+	/** Why the check failed. */
+	error?: string;
+}
+
+/**
+ * The outcome of a health check, suitable for a readiness probe.
+ */
+export interface HealthReport {
+	/** True if every checked dependency is healthy. */
+	healthy: boolean;
+	provider: RAGProviderType;
+	/** Connectivity to the vector store. */
+	vectorStore: ComponentHealth;
+	/** Connectivity to the embeddings provider. Only present when `checkEmbeddings` was set. */
+	embeddings?: ComponentHealth;
+	/** When the check ran, as an ISO 8601 timestamp. */
+	checkedAt: string;
+}
+
+/**
+ * Options for Maximal Marginal Relevance (MMR) diversification.
+ */
+export interface MMROptions {
+	/**
+	 * Trade-off between relevance and diversity, from 0 (maximize diversity)
+	 * to 1 (pure relevance ranking). Defaults to 0.5.
+	 */
+	lambda?: number;
+	/** Number of candidates to select the diverse result set from. Defaults to 20 (at least `limit`). */
+	fetchK?: number;
 }
 
 /**
@@ -74,10 +924,47 @@ export interface RetrievedChunk {
 export interface RetrievalOptions {
 	/** The maximum number of chunks to retrieve. Overrides `defaultRetrievalLimit`. */
 	limit?: number;
-	/** The minimum similarity score for retrieved chunks. Overrides `defaultScoreThreshold`. */
+	/**
+	 * The minimum similarity score for retrieved chunks. Overrides `defaultScoreThreshold`.
+	 * Applies to the vector ranking only; keyword and fused scores are on different scales.
+	 */
 	scoreThreshold?: number;
-	/** Optional filter to apply during retrieval (provider-specific implementation). */
-	filter?: Record<string, any>; // Provider specific filtering structure
+	/** How chunks are retrieved. Overrides `defaultRetrievalMode`. */
+	mode?: RetrievalMode;
+	/** Set to false to skip the configured reranker for this query. Defaults to true. */
+	rerank?: boolean;
+	/** Number of candidates to fetch before reranking. Overrides `defaultRerankCandidates`. */
+	rerankCandidates?: number;
+	/**
+	 * Diversify results with Maximal Marginal Relevance, using the stored vectors to
+	 * avoid near-duplicate chunks. Pass `true` for default settings.
+	 */
+	mmr?: boolean | MMROptions;
+	/**
+	 * Maximum number of chunks returned from any single document (by `sourceId` metadata).
+	 * Chunks without a `sourceId` are not capped. Optional.
+	 */
+	maxChunksPerDocument?: number;
+	/** Include each chunk's stored vector in the results. Defaults to false. */
+	includeVectors?: boolean;
+	/**
+	 * Expand each result with up to this many neighbouring chunks on each side from the
+	 * same document, by `chunkIndex`. Results whose windows overlap or touch are merged into
+	 * one passage, so fewer than `limit` results may be returned. Defaults to 0 (off).
+	 */
+	expandNeighbors?: number;
+	/**
+	 * Return the parent sections of the matched chunks instead of the chunks themselves
+	 * (requires `parentChunking`). Each parent appears once, ranked by and scored with its
+	 * best-matching child, and lists its matched children in `matchedChunks`. Chunks stored
+	 * without a parent are returned as they are. Cannot be combined with `expandNeighbors`.
+	 */
+	returnParents?: boolean;
+	/**
+	 * Optional metadata filter to apply during retrieval.
+	 * Uses the same semantics as `deleteDocumentsByMetadata` and `getDocumentsByMetadata`.
+	 */
+	filter?: MetadataFilter;
 }
 
 /**
@@ -89,11 +976,33 @@ export interface RAGProviderInterface {
 	/**
 	 * Adds a document to the vector store.
 	 * The provider is responsible for chunking and embedding the content.
+	 * Chunks whose text hash already exists in the store reuse the stored embedding.
 	 * @param content The text content of the document.
 	 * @param metadata Optional metadata to associate with the document/chunks.
 	 * @returns A promise resolving to an array of chunk IDs that were added.
 	 */
 	addDocument(content: string, metadata?: Record<string, any>): Promise<string[]>;
+	/**
+	 * Adds or replaces a document identified by a stable ID.
+	 * Chunk IDs are derived from the document ID and chunk position, and any chunks
+	 * from a previous version that are no longer produced are removed, so re-indexing
+	 * the same document never creates duplicates. The document ID is stored as `sourceId`.
+	 * Chunks whose text hash already exists in the store reuse the stored embedding.
+	 * @param documentId A stable identifier for the document (e.g., a file path).
+	 * @param content The text content of the document.
+	 * @param metadata Optional metadata to associate with the chunks.
+	 * @returns A promise resolving to a report of the chunks added, kept and removed.
+	 */
+	upsertDocument(documentId: string, content: string, metadata?: Record<string, any>): Promise<DocumentUpsertReport>;
+	/**
+	 * Ingests many documents, pooling their chunks into shared embedding batches.
+	 * At most `concurrency` documents are processed at once; a failing document is
+	 * recorded in the result instead of aborting the batch.
+	 * @param documents The documents to ingest. Those with a `documentId` are upserted.
+	 * @param options Optional concurrency, batch size and progress callback.
+	 * @returns A promise resolving to the per-document results and failures.
+	 */
+	addDocuments(documents: DocumentInput[], options?: BatchIngestOptions): Promise<BatchIngestResult>;
 	/**
 	 * Retrieves relevant context chunks based on a query.
 	 * @param queryText The user's query text.
@@ -101,71 +1010,273 @@ export interface RAGProviderInterface {
 	 * @returns A promise resolving to an array of retrieved chunks.
 	 */
 	retrieveContext(queryText: string, options?: RetrievalOptions): Promise<RetrievedChunk[]>;
+	/**
+	 * Ranks chunks by BM25 keyword relevance to the query text.
+	 * Scores are BM25 scores (higher is better); `scoreThreshold` is ignored.
+	 * @param queryText The user's query text.
+	 * @param options Optional retrieval customization (`limit` and `filter` are honored).
+	 * @returns A promise resolving to an array of retrieved chunks.
+	 */
+	keywordSearch(queryText: string, options?: RetrievalOptions): Promise<RetrievedChunk[]>;
 	/**
 	 * Deletes specific chunks from the vector store by their IDs.
 	 * @param ids An array of chunk IDs to delete.
+	 * @param filter Optional filter; only chunks that also match it are deleted.
 	 */
-	deleteDocumentsByIds(ids: string[]): Promise<void>;
+	deleteDocumentsByIds(ids: string[], filter?: MetadataFilter): Promise<void>;
 	/**
 	 * Deletes chunks from the vector store that match the provided metadata filter.
-	 * @param filter A metadata filter object. The exact structure and interpretation
-	 *               depend on the provider implementation. For simple cases, it might
-	 *               be a key-value map where chunks matching all key-value pairs are deleted.
+	 * @param filter A filter expression, or a key-value map where chunks matching
+	 *               all key-value pairs are deleted.
 	 */
-	deleteDocumentsByMetadata(filter: Record<string, any>): Promise<void>;
+	deleteDocumentsByMetadata(filter: MetadataFilter): Promise<void>;
 	/**
 	 * Retrieves all documents (points) from the vector store that match the provided metadata filter.
-	 * @param filter A metadata filter object.
+	 * @param filter A filter expression, or a key-value map of exact matches.
 	 * @returns A promise resolving to an array of the full retrieved points.
 	 */
-	getDocumentsByMetadata(filter: Record<string, any>): Promise<any[]>;
+	getDocumentsByMetadata(filter: MetadataFilter): Promise<any[]>;
+	/**
+	 * Lists stored points matching a filter one page at a time, in a stable order.
+	 * @param options Filter, page size, cursor and the parts of each point to return.
+	 * @returns A promise resolving to the page and the cursor for the next one.
+	 */
+	listPoints(options: PointListOptions): Promise<PointPage>;
+	/**
+	 * Counts stored points matching a filter.
+	 * @param filter Optional filter. Defaults to all points.
+	 */
+	countPoints(filter?: MetadataFilter): Promise<number>;
+	/**
+	 * Reports the stored point count, vector configuration and index status.
+	 */
+	getStats(): Promise<ProviderStats>;
+	/**
+	 * Checks that the store is reachable, throwing if it is not. Makes no retries.
+	 */
+	ping(): Promise<void>;
 	/**
 	 * Deletes the entire underlying storage container (e.g., collection, index)
 	 * associated with this provider instance configuration.
 	 * This is a destructive operation.
 	 */
 	deleteStorage(): Promise<void>;
+	/**
+	 * Re-embeds every stored chunk with another embeddings module into a new storage
+	 * container, then atomically points the configured name at it. Optional; providers
+	 * without aliasing support do not implement it.
+	 * @param embeddings The embeddings module for the new model.
+	 * @param embeddingModel Identity of the new model, stamped on every migrated chunk.
+	 * @param options Migration options.
+	 */
+	migrateEmbeddings?(
+		embeddings: EmbeddingsModule,
+		embeddingModel: string | undefined,
+		options: EmbeddingMigrationOptions
+	): Promise<EmbeddingMigrationResult>;
+	/**
+	 * Lists the payload indexes that exist in the store. Optional; providers without
+	 * payload indexes do not implement it.
+	 */
+	listPayloadIndexes?(): Promise<PayloadIndexInfo[]>;
+	/**
+	 * Releases resources held by the provider, such as the file provider's directory lock.
+	 * Optional; providers holding nothing do not implement it.
+	 */
+	close?(): Promise<void>;
+	/**
+	 * Creates a payload index, replacing an existing index on the field with a different type.
+	 * Optional; providers without payload indexes do not implement it.
+	 * @param index The field and index type.
+	 */
+	createPayloadIndex?(index: PayloadIndexConfig): Promise<void>;
+	/**
+	 * Reads every stored point, including parent sections, a page at a time.
+	 * @param batchSize The maximum number of points per page.
+	 */
+	exportPoints(batchSize: number): AsyncIterable<StoredPoint[]>;
+	/**
+	 * Writes points exactly as given, without chunking or embedding, replacing any
+	 * points with the same IDs.
+	 * @param points The points to write.
+	 */
+	importPoints(points: StoredPoint[]): Promise<void>;
 }
 
 /**
  * Interface defining the public methods of the RAGModule.
  */
-export interface RAGModuleInterface {
+export interface RAGModuleInterface<TMetadata extends Record<string, any> = Record<string, any>> {
 	/**
 	 * Adds a document to the configured vector store.
 	 * Handles chunking and embedding internally.
 	 * @param content The text content of the document.
-	 * @param metadata Optional metadata.
+	 * @param metadata Optional metadata, validated against `metadataSchema` if configured.
 	 * @returns A promise resolving to an array of chunk IDs that were added.
 	 */
-	addDocument(content: string, metadata?: Record<string, any>): Promise<string[]>;
+	addDocument(content: string, metadata?: TMetadata): Promise<string[]>;
+	/**
+	 * Adds or replaces a document identified by a stable ID.
+	 * Chunk IDs are derived from the document ID and chunk position, and any chunks
+	 * from a previous version that are no longer produced are removed, so re-indexing
+	 * the same document never creates duplicates. The document ID is stored as `sourceId`.
+	 * Chunks whose text hash already exists in the store reuse the stored embedding.
+	 * @param documentId A stable identifier for the document (e.g., a file path).
+	 * @param content The text content of the document.
+	 * @param metadata Optional metadata to associate with the chunks, validated against `metadataSchema` if configured.
+	 * @returns A promise resolving to a report of the chunks added, kept and removed.
+	 */
+	upsertDocument(documentId: string, content: string, metadata?: TMetadata): Promise<DocumentUpsertReport>;
+	/**
+	 * Ingests many documents, pooling their chunks into shared embedding batches.
+	 * At most `concurrency` documents are processed at once; a failing document is
+	 * recorded in the result instead of aborting the batch. A document with invalid
+	 * metadata is recorded as failed with its `MetadataValidationError`.
+	 * @param documents The documents to ingest. Those with a `documentId` are upserted.
+	 * @param options Optional concurrency, batch size and progress callback.
+	 * @returns A promise resolving to the per-document results and failures.
+	 */
+	addDocuments(documents: DocumentInput<TMetadata>[], options?: BatchIngestOptions): Promise<BatchIngestResult>;
 	/**
 	 * Retrieves relevant context chunks for a given query text.
 	 * @param queryText The user's query.
 	 * @param options Optional retrieval options.
 	 * @returns A promise resolving to an array of relevant text chunks.
 	 */
-	retrieveContext(queryText: string, options?: RetrievalOptions): Promise<RetrievedChunk[]>;
+	retrieveContext(queryText: string, options?: RetrievalOptions): Promise<RetrievedChunk<TMetadata>[]>;
 	/**
 	 * Deletes specific chunks from the vector store by their IDs.
 	 * @param ids An array of chunk IDs to delete.
+	 * @param filter Optional filter; only chunks that also match it are deleted.
 	 */
-	deleteDocumentsByIds(ids: string[]): Promise<void>;
+	deleteDocumentsByIds(ids: string[], filter?: MetadataFilter): Promise<void>;
 	/**
 	 * Deletes chunks from the vector store that match the provided metadata filter.
-	 * @param filter A metadata filter object. Provider-specific interpretation applies.
+	 * @param filter A filter expression, or a key-value map of exact matches.
 	 */
-	deleteDocumentsByMetadata(filter: Record<string, any>): Promise<void>;
+	deleteDocumentsByMetadata(filter: MetadataFilter): Promise<void>;
 	/**
 	 * Retrieves all documents (points) from the vector store that match the provided metadata filter.
-	 * @param filter A metadata filter object.
+	 * Every match is loaded into memory with its vector; use `listPoints` or `iteratePoints`
+	 * for large result sets.
+	 * @param filter A filter expression, or a key-value map of exact matches.
 	 * @returns A promise resolving to an array of the full retrieved points.
 	 */
-	getDocumentsByMetadata(filter: Record<string, any>): Promise<any[]>;
+	getDocumentsByMetadata(filter: MetadataFilter): Promise<any[]>;
+	/**
+	 * Lists stored points matching a filter one page at a time, without loading the whole
+	 * result set. Pass each page's `nextCursor` back as `cursor` to continue.
+	 * @param options Filter, page size, cursor and the parts of each point to return.
+	 * @returns A promise resolving to the page and the cursor for the next one.
+	 */
+	listPoints(options?: PointListOptions): Promise<PointPage>;
+	/**
+	 * Iterates over stored points matching a filter, fetching one page at a time.
+	 * @param options Filter, page size, starting cursor and the parts of each point to return.
+	 */
+	iteratePoints(options?: PointListOptions): AsyncIterableIterator<PointRecord>;
+	/**
+	 * Lists the indexed documents, grouping chunks by `sourceId`. Documents added without an
+	 * ID are not listed. Reads the store a page at a time, fetching only the fields it needs.
+	 * @param options Optional filter, extra metadata fields and page size.
+	 * @returns A promise resolving to the documents, ordered by ID.
+	 */
+	listDocuments(options?: DocumentListOptions): Promise<DocumentSummary[]>;
+	/**
+	 * Fetches a document and reassembles its text from the stored chunk offsets, or from
+	 * its parent sections if it was stored with hierarchical indexing. On the root module, only
+	 * documents stored outside any namespace are found; use a namespaced view for the others.
+	 * @param documentId The document's `sourceId`.
+	 * @param filter Optional filter the chunks must also match.
+	 * @returns A promise resolving to the document, or undefined if no chunks were found.
+	 */
+	getDocument(documentId: string, filter?: MetadataFilter): Promise<StoredDocument | undefined>;
+	/**
+	 * Counts the searchable chunks matching a filter, e.g. `{ sourceId: 'lecture-3.md' }`.
+	 * Parent sections stored by hierarchical indexing are not counted.
+	 * @param filter Optional filter. Defaults to all chunks.
+	 */
+	countChunks(filter?: MetadataFilter): Promise<number>;
+	/**
+	 * Checks whether any chunks of a document are stored. On the root module, only documents
+	 * stored outside any namespace are found.
+	 * @param documentId The document's `sourceId`.
+	 * @param filter Optional filter the chunks must also match.
+	 */
+	documentExists(documentId: string, filter?: MetadataFilter): Promise<boolean>;
+	/**
+	 * Reports what is stored and how: point, chunk and document counts, vector size and
+	 * distance metric, index status, payload indexes and the embedding model.
+	 * @param options Optional; set `countDocuments: false` to skip the document scan.
+	 */
+	getStats(options?: StatsOptions): Promise<StorageStats>;
+	/**
+	 * Checks connectivity to the vector store, and optionally the embeddings provider,
+	 * measuring the latency of each. Never throws; failures are reported in the result.
+	 * @param options Optional embeddings check and timeout.
+	 */
+	healthCheck(options?: HealthCheckOptions): Promise<HealthReport>;
 	/**
 	 * Deletes the entire underlying storage container (e.g., collection, index)
 	 * associated with this RAG module's configuration.
 	 * Use with caution.
 	 */
 	deleteStorage(): Promise<void>;
+	/**
+	 * Waits for pending writes and releases the store, e.g. the file provider's directory
+	 * lock, so another process can open it. The module cannot be used afterwards; create a new one.
+	 */
+	close(): Promise<void>;
+	/**
+	 * Moves the store to a new embedding model without downtime (blue/green):
+	 * re-embeds every stored chunk into a new collection, then swaps the alias named by
+	 * `collectionName` to it. Afterwards this module embeds queries with the new model.
+	 * Supported by the Qdrant provider only.
+	 * @param options The new embeddings configuration and migration options.
+	 * @returns A promise resolving to a summary of the migration.
+	 */
+	migrateEmbeddings(options: EmbeddingMigrationOptions): Promise<EmbeddingMigrationResult>;
+	/**
+	 * Lists the payload indexes that exist in the store. Supported by the Qdrant provider only.
+	 * @returns A promise resolving to the indexed fields, their types and coverage.
+	 */
+	listPayloadIndexes(): Promise<PayloadIndexInfo[]>;
+	/**
+	 * Creates a payload index at runtime, replacing an existing index on the field with a
+	 * different type. Supported by the Qdrant provider only.
+	 * @param field The payload field to index.
+	 * @param type The index type.
+	 */
+	createPayloadIndex(field: string, type: PayloadIndexType): Promise<void>;
+	/**
+	 * Assembles retrieved chunks into a token-budgeted context block for a prompt.
+	 * The most relevant chunks are kept first; duplicate and overlapping text is removed,
+	 * and chunks are grouped by document in reading order under numbered citations.
+	 * @param chunks Retrieved chunks, most relevant first (as returned by `retrieveContext`).
+	 * @param options Optional token budget, tokenizer and formatting.
+	 * @returns The context text and the sources its citation numbers refer to.
+	 */
+	buildContext(chunks: RetrievedChunk[], options?: ContextBuildOptions): BuiltContext;
+	/**
+	 * Returns the embedding cache's hit and miss counts, or undefined if caching is disabled.
+	 */
+	getEmbeddingCacheStats(): EmbeddingCacheStats | undefined;
+	/**
+	 * Streams every stored point (ID, vector and payload) to a snapshot in JSON Lines format,
+	 * preceded by a header with the store's vector size, distance metric and embedding model.
+	 * Points are read a page at a time, so large stores are never held in memory.
+	 * The stream is ended when the export completes.
+	 * @param stream The destination, e.g. `fs.createWriteStream('course.jsonl')`.
+	 * @param options Optional batch size and progress callback.
+	 */
+	exportStorage(stream: NodeJS.WritableStream, options?: SnapshotOptions): Promise<SnapshotResult>;
+	/**
+	 * Restores the points of a snapshot written by `exportStorage` into this module's store,
+	 * with any provider, without re-embedding. Points with the same IDs are replaced.
+	 * Fails before writing anything if the snapshot's vector size or embedding model
+	 * differs from this module's.
+	 * @param stream The snapshot source, e.g. `fs.createReadStream('course.jsonl')`.
+	 * @param options Optional batch size and progress callback.
+	 */
+	importStorage(stream: NodeJS.ReadableStream, options?: SnapshotOptions): Promise<SnapshotResult>;
 }
\ No newline at end of file